@@ -0,0 +1,503 @@
+import { miniSerializeError } from "@reduxjs/toolkit";
+import { ChangeDetector, createChangeDetector } from "./ChangeDetection";
+import { AsyncConfig, AsyncConfigCreationOptions, Real } from "./Config";
+import {
+    AsyncDiskSpace,
+    OwnerKey,
+    PersistedRecord,
+    createAsyncDiskSpace,
+} from "./DiskSpace";
+import {
+    BackupRecord,
+    ImportMode,
+    ImportOutcome,
+    restoreBackupRecord,
+    toBackupRecord,
+} from "./Backup";
+import { createHydrationActions } from "./HydrationStatus";
+import { RecordInspection, inspectRecord } from "./Inspection";
+import { ResetSentinel } from "./Migration";
+import {
+    MinimalRequiredStoreAPI,
+    ConflictResolution,
+    Restored,
+    TransferOptions,
+    actualizeRecord,
+    createEffect,
+    createOwnerTracker,
+    dispatchHydration,
+    hydrateResolved,
+    recoverFromHydrationError,
+    resolveOptions,
+} from "./PersistenceEffects";
+import { AsyncWebStorage, StorageKey } from "./WebStorage";
+import { WriteStrategy, createWriteQueue } from "./WriteStrategy";
+
+/**
+ * Same as `createPersistenceEffects` but for promise based storages,
+ * every effect returns a promise that resolves once storage is done.
+ */
+export function createAsyncPersistenceEffects<
+    TState extends Real,
+    TParent extends Real,
+>(...params: Parameters<typeof resolveAsyncConfig<TState, TParent>>) {
+    const config = resolveAsyncConfig(...params);
+    return createAsyncPersistenceEffectsImpl(config);
+}
+
+export function createAsyncPersistenceEffectsImpl<
+    TState extends Real,
+    TParent extends Real,
+>(config: AsyncConfig<TState, TParent>) {
+    const disk = createAsyncDiskSpace(config);
+    const changes = createChangeDetector<TState>(config.compare);
+    const conflicts = createAsyncConflictResolution(config, disk, changes);
+    const writes = createAsyncWriteQueue<TState>(
+        config.writeStrategy,
+        async (owner, state) => {
+            try {
+                await (state
+                    ? conflicts.write(owner, state)
+                    : disk.clear(owner));
+            } catch (error) {
+                // state that failed to be written is written again by the next update
+                changes.forget(owner);
+                config.onError(error);
+            }
+        },
+    );
+    const hydrating = new Set<OwnerKey>();
+    const hydrate = createAsyncHydrateEffect(config, disk, changes, hydrating);
+    return {
+        key: config.key,
+        ...createHydrationActions(config.key),
+        hydrate,
+        update: createAsyncUpdateEffect(
+            config,
+            writes,
+            changes,
+            hydrating,
+            hydrate,
+            conflicts,
+        ),
+        flush: createAsyncFlushEffect(writes),
+        purge: createAsyncPurgeEffect(disk, writes),
+        transferOwner: createAsyncTransferOwnerEffect(
+            config,
+            disk,
+            writes,
+            changes,
+        ),
+        sweepExpired: createAsyncSweepExpiredEffect(disk),
+        listOwners: disk.listOwners,
+        inspect: createAsyncInspect(config, disk),
+        ...createAsyncBackup(config, disk, writes),
+    };
+}
+
+export function resolveAsyncConfig<TState extends Real, TParent extends Real>(
+    key: StorageKey,
+    storage: AsyncWebStorage,
+    config: AsyncConfigCreationOptions<TState, TParent>,
+): AsyncConfig<TState, TParent> {
+    return {
+        ...resolveOptions(key, config),
+        storage,
+        codecs: config.codecs ?? [],
+        retiredCodecs: config.retiredCodecs ?? [],
+    };
+}
+
+// Hydrate
+
+function createAsyncHydrateEffect<TState extends Real, TParent extends Real>(
+    config: AsyncConfig<TState, TParent>,
+    disk: AsyncDiskSpace<TState>,
+    changes: ChangeDetector<TState>,
+    hydrating: Set<OwnerKey>,
+) {
+    const actions = createHydrationActions(config.key);
+
+    const theHydrateEffect = createEffect<TParent, Promise<void>>(
+        async (api) => {
+            const { owner } = config.select(api.getState());
+            if (owner == null) {
+                api.dispatch(actions.hydrationStarted({}));
+                api.dispatch(actions.hydrationSkipped({ reason: "no-owner" }));
+                return;
+            }
+
+            // lifecycle actions trigger update effect as well, it must not write
+            // initial state over the record that is being read
+            hydrating.add(owner);
+            try {
+                await hydrateOwner(api, owner);
+            } finally {
+                hydrating.delete(owner);
+            }
+        },
+    );
+
+    const hydrateOwner = async (
+        api: MinimalRequiredStoreAPI<TParent>,
+        owner: OwnerKey,
+    ) => {
+        api.dispatch(actions.hydrationStarted({ owner }));
+        let restored: Restored<TState>;
+        try {
+            restored = await restore(owner);
+        } catch (error) {
+            api.dispatch(
+                actions.hydrationFailed({
+                    owner,
+                    error: miniSerializeError(error),
+                }),
+            );
+            await recoverFromHydrationError(config, disk, owner, error);
+            return;
+        }
+
+        if ("reason" in restored) {
+            api.dispatch(
+                actions.hydrationSkipped({ owner, reason: restored.reason }),
+            );
+            return;
+        }
+
+        changes.remember(owner, restored.state);
+        dispatchHydration(config, api, restored.state);
+        api.dispatch(
+            actions.hydrated({
+                owner,
+                fromVersion: restored.fromVersion,
+                migrated: restored.migrated,
+            }),
+        );
+    };
+
+    const restore = async (owner: OwnerKey): Promise<Restored<TState>> => {
+        const persistedData = await disk.get(owner);
+        if (!persistedData) return importLegacy(owner);
+
+        return ensureVersionRelevance(persistedData, owner);
+    };
+
+    const importLegacy = async (owner: OwnerKey): Promise<Restored<TState>> => {
+        const legacy = await disk.getLegacy(owner);
+        if (!legacy) return { reason: "not-found" };
+
+        const state = config.migrate(legacy.data, legacy.version);
+        if (state === ResetSentinel) return { reason: "version-reset" };
+
+        if (await writeBack(owner, state)) {
+            await disk.removeLegacy(legacy);
+        }
+        const fromVersion = legacy.version;
+        return { state, fromVersion, migrated: fromVersion !== config.version };
+    };
+
+    const ensureVersionRelevance = async (
+        persisted: PersistedRecord,
+        owner: OwnerKey,
+    ): Promise<Restored<TState>> => {
+        const fromVersion = persisted.version;
+        if (fromVersion === config.version) {
+            return {
+                state: persisted.data as TState,
+                fromVersion,
+                migrated: false,
+            };
+        }
+
+        const migratedData = config.migrate(persisted.data, fromVersion);
+
+        if (migratedData === ResetSentinel) {
+            await disk.clear(owner);
+            return { reason: "version-reset" };
+        } else {
+            await writeBack(owner, migratedData);
+            return { state: migratedData, fromVersion, migrated: true };
+        }
+    };
+
+    /**
+     * Failed write is only reported, record that was read stays and is not subject to `errorPolicy`
+     * @returns whether the record was written
+     */
+    const writeBack = async (owner: OwnerKey, state: TState) => {
+        try {
+            await disk.set(owner, state);
+            return true;
+        } catch (error) {
+            config.onError(error);
+            return false;
+        }
+    };
+
+    return theHydrateEffect;
+}
+
+// Update
+
+function createAsyncUpdateEffect<TState extends Real, TParent extends Real>(
+    config: AsyncConfig<TState, TParent>,
+    writes: AsyncWriteQueue<TState>,
+    changes: ChangeDetector<TState>,
+    hydrating: ReadonlySet<OwnerKey>,
+    hydrate: (api: MinimalRequiredStoreAPI<TParent>) => Promise<void>,
+    conflicts: ConflictResolution<TParent>,
+) {
+    const owners = createOwnerTracker();
+
+    const theUpdateEffect = createEffect<TParent, Promise<void>>(
+        async (api) => {
+            conflicts.connect(api);
+            let update = config.select(api.getState());
+            if (owners.hasSwitched(update) && config.rehydrateOnOwnerChange) {
+                await hydrate(api);
+                update = config.select(api.getState());
+            }
+            if (update.skipSync) {
+                return;
+            }
+            const { owner, state } = update;
+            if (hydrating.has(owner)) {
+                return;
+            }
+            // change is detected synchronously, so that effects fired in quick succession
+            // do not start writing the same state more than once
+            if (!state) {
+                changes.forget(owner);
+                writes.enqueue(owner, undefined);
+            } else if (changes.hasChanged(owner, state)) {
+                writes.enqueue(owner, state);
+            }
+            // deferred writes are not awaited, only the ones strategy has already flushed
+            await writes.settled();
+        },
+    );
+
+    return theUpdateEffect;
+}
+
+type AsyncWriteQueue<TState extends Real> = ReturnType<
+    typeof createAsyncWriteQueue<TState>
+>;
+
+/**
+ * @param write must not reject, failures are reported by the caller
+ */
+function createAsyncWriteQueue<TState extends Real>(
+    strategy: WriteStrategy,
+    write: (owner: OwnerKey, state: TState | undefined) => Promise<void>,
+) {
+    const inFlight = new Set<Promise<void>>();
+    const queue = createWriteQueue<TState, Promise<void>>(
+        strategy,
+        (owner, state) => {
+            const written = write(owner, state);
+            inFlight.add(written);
+            void written.then(() => inFlight.delete(written));
+            return written;
+        },
+    );
+    return {
+        ...queue,
+        /**
+         * Resolves once writes that were already flushed are done
+         */
+        settled: () => Promise.all(inFlight).then(() => {}),
+    };
+}
+
+// Conflicts
+
+function createAsyncConflictResolution<
+    TState extends Real,
+    TParent extends Real,
+>(
+    config: AsyncConfig<TState, TParent>,
+    disk: AsyncDiskSpace<TState>,
+    changes: ChangeDetector<TState>,
+) {
+    let store: MinimalRequiredStoreAPI<TParent> | undefined;
+
+    const write = async (owner: OwnerKey, local: TState) => {
+        const resolved = await resolve(owner, local);
+        await disk.set(owner, resolved);
+        if (resolved !== local && store) {
+            hydrateResolved(config, store, changes, owner, resolved);
+        }
+    };
+
+    const resolve = async (owner: OwnerKey, local: TState) => {
+        if (!config.resolveConflict) return local;
+
+        let stored: TState | typeof ResetSentinel | undefined;
+        try {
+            const persisted = await disk.getWrittenElsewhere(owner);
+            stored = persisted && actualizeRecord(config, persisted);
+        } catch (error) {
+            config.onError(error);
+            return local;
+        }
+        if (stored === undefined || stored === ResetSentinel) return local;
+        return config.resolveConflict(local, stored);
+    };
+
+    const connect = (api: MinimalRequiredStoreAPI<TParent>) => {
+        store = api;
+    };
+
+    return { write, connect };
+}
+
+// Transfer
+
+function createAsyncTransferOwnerEffect<
+    TState extends Real,
+    TParent extends Real,
+>(
+    config: AsyncConfig<TState, TParent>,
+    disk: AsyncDiskSpace<TState>,
+    writes: AsyncWriteQueue<TState>,
+    changes: ChangeDetector<TState>,
+) {
+    const transferOwner = (
+        from: OwnerKey,
+        to: OwnerKey,
+        { merge }: TransferOptions<TState>,
+    ) => {
+        const theTransferOwnerEffect = createEffect<TParent, Promise<void>>(
+            async (api) => {
+                // source would be cleared right after it was written
+                if (from === to) return;
+                await Promise.all(writes.flush());
+                await writes.settled();
+
+                const source = await read(from);
+                if (source === undefined) return;
+                const target = await read(to);
+                const state =
+                    target === undefined ? source : merge(source, target);
+
+                await disk.set(to, state);
+                await disk.clear(from);
+                changes.forget(from);
+
+                const update = config.select(api.getState());
+                if (!update.skipSync && update.owner === to) {
+                    changes.remember(to, state);
+                    dispatchHydration(config, api, state);
+                }
+            },
+        );
+
+        return theTransferOwnerEffect;
+    };
+
+    const read = async (owner: OwnerKey) => {
+        const persisted = await disk.get(owner);
+        if (!persisted) return undefined;
+
+        const data = actualizeRecord(config, persisted);
+        return data === ResetSentinel ? undefined : data;
+    };
+
+    return transferOwner;
+}
+
+// Flush
+
+function createAsyncFlushEffect<TState extends Real, TParent>(
+    writes: AsyncWriteQueue<TState>,
+) {
+    const theFlushEffect = createEffect<TParent, Promise<void>>(async () => {
+        await Promise.all(writes.flush());
+    });
+
+    return theFlushEffect;
+}
+
+// Purge
+
+function createAsyncPurgeEffect<TState extends Real, TParent>(
+    disk: AsyncDiskSpace<TState>,
+    writes: AsyncWriteQueue<TState>,
+) {
+    const thePurgeEffect = createEffect<TParent, Promise<void>>(async () => {
+        writes.discard();
+        await writes.settled();
+        await disk.clearAll();
+    });
+
+    return thePurgeEffect;
+}
+
+// Inspect
+
+function createAsyncInspect<TState extends Real, TParent extends Real>(
+    config: AsyncConfig<TState, TParent>,
+    disk: AsyncDiskSpace<TState>,
+) {
+    return async (): Promise<RecordInspection[]> => {
+        const owners = await disk.listOwners();
+        const peeked = await Promise.all(owners.map(disk.peek));
+        return owners.flatMap((owner, index) => {
+            const record = peeked[index];
+            return record ? [inspectRecord(config, owner, record)] : [];
+        });
+    };
+}
+
+// Backup
+
+function createAsyncBackup<TState extends Real, TParent extends Real>(
+    config: AsyncConfig<TState, TParent>,
+    disk: AsyncDiskSpace<TState>,
+    writes: AsyncWriteQueue<TState>,
+) {
+    const exportRecords = async (): Promise<BackupRecord[]> => {
+        const owners = await disk.listOwners();
+        const peeked = await Promise.all(owners.map(disk.peek));
+        return owners.flatMap((owner, index) => {
+            const record = peeked[index];
+            return record ? toBackupRecord(config, owner, record) : [];
+        });
+    };
+
+    const importRecord = async (
+        record: BackupRecord,
+        mode: ImportMode,
+    ): Promise<ImportOutcome> => {
+        await Promise.all(writes.flush());
+        await writes.settled();
+        if (mode === "merge" && (await disk.peek(record.owner))) {
+            return { status: "skipped" };
+        }
+        const restored = restoreBackupRecord(config, record);
+        if (!("state" in restored)) return restored;
+
+        try {
+            await disk.set(record.owner, restored.state);
+            return { status: "imported" };
+        } catch (error) {
+            config.onError(error);
+            return { status: "rejected", reason: "write-failed" };
+        }
+    };
+
+    return { exportRecords, importRecord };
+}
+
+// Sweep
+
+function createAsyncSweepExpiredEffect<TState extends Real, TParent>(
+    disk: AsyncDiskSpace<TState>,
+) {
+    const theSweepExpiredEffect = createEffect<TParent, Promise<void>>(() =>
+        disk.sweepExpired(),
+    );
+
+    return theSweepExpiredEffect;
+}
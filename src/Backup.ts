@@ -0,0 +1,160 @@
+import { Config, Real } from "./Config";
+import type { OwnerKey, PeekedRecord } from "./DiskSpace";
+import { ResetSentinel } from "./Migration";
+import { SerializedData, StorageKey } from "./WebStorage";
+
+const BACKUP_FORMAT = "redux-storage-effect/backup";
+
+/**
+ * Every record of every key, state is serialized with `json` of its key.
+ * Codecs are not applied, so the document can be imported on another device.
+ */
+export interface BackupDocument {
+    readonly format: typeof BACKUP_FORMAT;
+    readonly exportedAt: number;
+    readonly records: readonly BackupRecord[];
+}
+
+export interface BackupRecord {
+    readonly key: StorageKey;
+    readonly owner: OwnerKey;
+    readonly version: number;
+    readonly savedAt?: number;
+    readonly payload: SerializedData;
+}
+
+/**
+ * `overwrite` replaces records that exist, `merge` only adds owners that have no record yet
+ */
+export type ImportMode = "overwrite" | "merge";
+
+export type ImportRejection =
+    /** no effects are registered for the key */
+    | "unknown-key"
+    /** written by a newer build than the current one */
+    | "newer-version"
+    /** cannot be parsed, migrated or validated */
+    | "invalid"
+    | "write-failed";
+
+export type ImportOutcome =
+    | { readonly status: "imported" | "skipped" }
+    | {
+          readonly status: "rejected";
+          readonly reason: ImportRejection;
+          readonly message?: string;
+      };
+
+interface RecordRef {
+    readonly key: StorageKey;
+    readonly owner: OwnerKey;
+}
+
+export interface ImportReport {
+    readonly imported: readonly RecordRef[];
+    /** records that were kept in `merge` mode */
+    readonly skipped: readonly RecordRef[];
+    readonly rejected: readonly (RecordRef & {
+        readonly reason: ImportRejection;
+        readonly message?: string;
+    })[];
+}
+
+export function createBackupDocument(
+    records: readonly BackupRecord[],
+): BackupDocument {
+    return { format: BACKUP_FORMAT, exportedAt: Date.now(), records };
+}
+
+export function assertBackupDocument(
+    document: unknown,
+): asserts document is BackupDocument {
+    if (
+        typeof document !== "object" ||
+        document === null ||
+        !("format" in document) ||
+        document.format !== BACKUP_FORMAT ||
+        !("records" in document) ||
+        !Array.isArray(document.records)
+    ) {
+        throw new TypeError("[PERSISTENCE] Not a backup document");
+    }
+    const malformed = document.records.findIndex(
+        (record: unknown) => !isBackupRecord(record),
+    );
+    if (malformed !== -1) {
+        throw new TypeError(
+            `[PERSISTENCE] Record #${malformed} of backup document is malformed`,
+        );
+    }
+}
+
+function isBackupRecord(record: unknown): record is BackupRecord {
+    if (typeof record !== "object" || record === null) return false;
+    const { key, owner, version, savedAt, payload } = record as Partial<
+        Record<keyof BackupRecord, unknown>
+    >;
+    return (
+        typeof key === "string" &&
+        typeof owner === "string" &&
+        // version of records written without migrations is 0
+        Number.isSafeInteger(version) &&
+        (version as number) >= 0 &&
+        (savedAt === undefined || typeof savedAt === "number") &&
+        typeof payload === "string"
+    );
+}
+
+/**
+ * Expired and unreadable records are left out
+ */
+export function toBackupRecord<TState extends Real>(
+    config: Pick<Config<TState, never>, "key" | "json">,
+    owner: OwnerKey,
+    { record, expired }: PeekedRecord,
+): BackupRecord[] {
+    if (!record || expired) return [];
+    const { version, savedAt, data } = record;
+    const payload = config.json.stringify(data);
+    return [{ key: config.key, owner, version, savedAt, payload }];
+}
+
+/**
+ * Runs `migrate` even for the current version, so that imported state is validated
+ */
+export function restoreBackupRecord<TState extends Real>(
+    config: Pick<Config<TState, never>, "version" | "migrate" | "json">,
+    { version, payload }: BackupRecord,
+): { readonly state: TState } | Extract<ImportOutcome, { status: "rejected" }> {
+    if (version > config.version) {
+        return { status: "rejected", reason: "newer-version" };
+    }
+    let data: unknown;
+    try {
+        data = config.json.parse(payload);
+    } catch {
+        // parser errors may quote the payload
+        return {
+            status: "rejected",
+            reason: "invalid",
+            message: "Payload cannot be parsed",
+        };
+    }
+    if (data == null) {
+        return {
+            status: "rejected",
+            reason: "invalid",
+            message: "Payload holds no state",
+        };
+    }
+    try {
+        const state = config.migrate(data, version);
+        if (state === ResetSentinel) {
+            return { status: "rejected", reason: "newer-version" };
+        }
+        return { state };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { status: "rejected", reason: "invalid", message };
+    }
+}
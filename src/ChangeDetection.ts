@@ -0,0 +1,43 @@
+import { Real } from "./Config";
+import { OwnerKey } from "./DiskSpace";
+
+export type ChangeDetector<T extends Real> = ReturnType<
+    typeof createChangeDetector<T>
+>;
+
+/**
+ * Remembers last persisted state of every owner (or of every partition of an owner)
+ */
+export const createChangeDetector = <T extends Real>(
+    isEqual: (a: T, b: T) => boolean,
+) => {
+    const current = new Map<
+        OwnerKey,
+        { readonly deref: () => T | undefined }
+    >();
+    const hasChanged = (owner: OwnerKey, value: T): boolean => {
+        const previous = current.get(owner)?.deref();
+        if (!previous || !isEqual(previous, value)) {
+            current.set(owner, createWeakRef(value));
+            return true;
+        }
+        return false;
+    };
+    // marks value that came from storage as already persisted
+    const remember = (owner: OwnerKey, value: T) => {
+        current.set(owner, createWeakRef(value));
+    };
+    // persisted value was removed, same state has to be written again
+    const forget = (owner: OwnerKey) => {
+        current.delete(owner);
+    };
+    return { hasChanged, remember, forget };
+};
+
+const createWeakRef = <T>(data: T): { readonly deref: () => T | undefined } => {
+    if (data && typeof data === "object") {
+        return new WeakRef(data);
+    } else {
+        return { deref: () => data };
+    }
+};
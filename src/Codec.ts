@@ -0,0 +1,292 @@
+import { OwnerKey } from "./DiskSpace";
+import { CorruptedRecordError } from "./RecordFormat";
+import { SerializedData, StorageKey } from "./WebStorage";
+
+export interface CodecContext {
+    readonly key: StorageKey;
+    readonly owner: OwnerKey;
+}
+
+/**
+ * Transformation applied to serialized state before it is written, `id` is stored with the record
+ * so that it can be decoded after pipeline has changed.
+ */
+export interface Codec<TResult = SerializedData> {
+    readonly id: string;
+    readonly encode: (data: SerializedData, context: CodecContext) => TResult;
+    readonly decode: (data: SerializedData, context: CodecContext) => TResult;
+}
+
+/**
+ * Can only be used with `createAsyncPersistenceEffects`
+ */
+export type AsyncCodec = Codec<SerializedData | Promise<SerializedData>>;
+
+type MaybePromise<T> = T | Promise<T>;
+
+export type CodecPipeline = ReturnType<typeof createCodecPipeline>;
+
+/**
+ * @param codecs applied in order on write and in reverse on read
+ * @param retiredCodecs no longer used for writes, but still needed to read records written with them
+ */
+export function createCodecPipeline(
+    codecs: readonly AsyncCodec[],
+    retiredCodecs: readonly AsyncCodec[],
+) {
+    const id = codecs.length
+        ? codecs.map((codec) => codec.id).join(ID_SEPARATOR)
+        : undefined;
+    const known = new Map(
+        [...retiredCodecs, ...codecs].map((codec) => [codec.id, codec]),
+    );
+
+    return { id, encode, decode };
+
+    function encode(data: SerializedData, context: CodecContext) {
+        return pipe(
+            data,
+            codecs.map((codec) => (it) => codec.encode(it, context)),
+        );
+    }
+
+    function decode(
+        data: SerializedData,
+        codecId: string | undefined,
+        context: CodecContext,
+    ) {
+        const ids = codecId ? codecId.split(ID_SEPARATOR) : [];
+        return pipe(
+            data,
+            ids.reverse().map((id) => {
+                const codec = known.get(id);
+                if (!codec) {
+                    throw new CorruptedRecordError(
+                        `Persisted ${context.key} was encoded with unknown codec "${id}"`,
+                    );
+                }
+                return (it) => codec.decode(it, context);
+            }),
+        );
+    }
+}
+
+const ID_SEPARATOR = ",";
+
+const pipe = (
+    data: SerializedData,
+    steps: ((data: SerializedData) => MaybePromise<SerializedData>)[],
+) =>
+    steps.reduce<MaybePromise<SerializedData>>(
+        (result, step) =>
+            typeof result === "string" ? step(result) : result.then(step),
+        data,
+    );
+
+// Built-in codecs
+
+const base64: Codec = {
+    id: "base64",
+    encode: (data) => bytesToBase64(new TextEncoder().encode(data)),
+    decode: (data) => new TextDecoder().decode(base64ToBytes(data)),
+};
+
+/**
+ * Compresses with `CompressionStream`, output is base64 encoded
+ */
+const deflate: AsyncCodec = {
+    id: "deflate",
+    encode: async (data) => {
+        const input = new Blob([data]).stream();
+        const compressed = input.pipeThrough(
+            new CompressionStream("deflate-raw"),
+        );
+        const bytes = await new Response(compressed).arrayBuffer();
+        return bytesToBase64(new Uint8Array(bytes));
+    },
+    decode: async (data) => {
+        const input = new Blob([base64ToBytes(data)]).stream();
+        const decompressed = input.pipeThrough(
+            new DecompressionStream("deflate-raw"),
+        );
+        return new Response(decompressed).text();
+    },
+};
+
+/**
+ * Compresses with LZW, synchronous so it works with `localStorage` too. Output packs 15 bits into
+ * every UTF-16 character, storages that only accept ASCII (e.g. cookies) need `base64` after it.
+ */
+const lzw: Codec = {
+    id: "lzw",
+    encode: (data) => {
+        const output = createBitWriter();
+        const dictionary = new Map<string, number>();
+        let nextCode = FIRST_LZW_CODE;
+        let previous: string | undefined;
+        for (let idx = 0; idx < data.length; ) {
+            let phrase = data[idx];
+            let code = dictionary.get(phrase);
+            if (code === undefined) {
+                output.write(LZW_LITERAL, bitLength(nextCode));
+                output.write(phrase.charCodeAt(0), 16);
+                dictionary.set(phrase, nextCode++);
+            } else {
+                while (idx + phrase.length < data.length) {
+                    const longer = phrase + data[idx + phrase.length];
+                    const longerCode = dictionary.get(longer);
+                    if (longerCode === undefined) break;
+                    phrase = longer;
+                    code = longerCode;
+                }
+                output.write(code, bitLength(nextCode));
+            }
+            // decoder learns the same entry once it reads the phrase
+            if (
+                previous !== undefined &&
+                !dictionary.has(previous + phrase[0])
+            ) {
+                dictionary.set(previous + phrase[0], nextCode++);
+            }
+            previous = phrase;
+            idx += phrase.length;
+        }
+        output.write(LZW_END, bitLength(nextCode));
+        return output.end();
+    },
+    decode: (data) => {
+        const input = createBitReader(data);
+        const phrases: string[] = [];
+        const known = new Set<string>();
+        let decoded = "";
+        let previous: string | undefined;
+        for (;;) {
+            const code = input.read(bitLength(FIRST_LZW_CODE + phrases.length));
+            if (code === LZW_END) return decoded;
+            let phrase: string;
+            if (code === LZW_LITERAL) {
+                phrase = String.fromCharCode(input.read(16));
+                phrases.push(phrase);
+                known.add(phrase);
+            } else if (code - FIRST_LZW_CODE < phrases.length) {
+                phrase = phrases[code - FIRST_LZW_CODE];
+            } else {
+                throw new CorruptedRecordError(
+                    "Persisted data is not valid LZW output",
+                );
+            }
+            if (previous !== undefined && !known.has(previous + phrase[0])) {
+                phrases.push(previous + phrase[0]);
+                known.add(previous + phrase[0]);
+            }
+            previous = phrase;
+            decoded += phrase;
+        }
+    },
+};
+
+const LZW_LITERAL = 0;
+const LZW_END = 1;
+const FIRST_LZW_CODE = 2;
+// characters from 32 up, so that output has no control characters nor surrogates
+const BITS_PER_CHAR = 15;
+const CHAR_OFFSET = 32;
+
+const bitLength = (value: number) => 32 - Math.clz32(value);
+
+function createBitWriter() {
+    let output = "";
+    let buffer = 0;
+    let bufferedBits = 0;
+    return {
+        write(value: number, width: number) {
+            for (let bit = 0; bit < width; bit++) {
+                buffer |= ((value >> bit) & 1) << bufferedBits;
+                if (++bufferedBits === BITS_PER_CHAR) {
+                    output += String.fromCharCode(buffer + CHAR_OFFSET);
+                    buffer = 0;
+                    bufferedBits = 0;
+                }
+            }
+        },
+        end() {
+            return bufferedBits
+                ? output + String.fromCharCode(buffer + CHAR_OFFSET)
+                : output;
+        },
+    };
+}
+
+function createBitReader(data: SerializedData) {
+    let position = 0;
+    return {
+        read(width: number) {
+            let value = 0;
+            for (let bit = 0; bit < width; bit++, position++) {
+                const charIdx = Math.floor(position / BITS_PER_CHAR);
+                if (charIdx >= data.length) {
+                    throw new CorruptedRecordError(
+                        "Persisted data is not valid LZW output",
+                    );
+                }
+                const char = data.charCodeAt(charIdx) - CHAR_OFFSET;
+                value |= ((char >> position % BITS_PER_CHAR) & 1) << bit;
+            }
+            return value;
+        },
+    };
+}
+
+/**
+ * Encrypts with AES-GCM, `getKey` can derive a separate key for each owner.
+ * Output is base64 encoded random IV followed by the cipher text.
+ */
+const aesGcm = (
+    getKey: (context: CodecContext) => MaybePromise<CryptoKey>,
+    id = "aes-gcm",
+): AsyncCodec => ({
+    id,
+    encode: async (data, context) => {
+        const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+        const encrypted = await crypto.subtle.encrypt(
+            { name: "AES-GCM", iv },
+            await getKey(context),
+            new TextEncoder().encode(data),
+        );
+        const bytes = new Uint8Array(IV_LENGTH + encrypted.byteLength);
+        bytes.set(iv);
+        bytes.set(new Uint8Array(encrypted), IV_LENGTH);
+        return bytesToBase64(bytes);
+    },
+    decode: async (data, context) => {
+        const bytes = base64ToBytes(data);
+        const decrypted = await crypto.subtle.decrypt(
+            { name: "AES-GCM", iv: bytes.subarray(0, IV_LENGTH) },
+            await getKey(context),
+            bytes.subarray(IV_LENGTH),
+        );
+        return new TextDecoder().decode(decrypted);
+    },
+});
+
+const IV_LENGTH = 12;
+
+export const Codec = {
+    base64,
+    lzw,
+    deflate,
+    aesGcm,
+} as const;
+
+function bytesToBase64(bytes: Uint8Array) {
+    let binary = "";
+    // spreading large arrays into `fromCharCode` would exceed call stack
+    for (let idx = 0; idx < bytes.length; idx += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(idx, idx + 0x8000));
+    }
+    return btoa(binary);
+}
+
+function base64ToBytes(data: SerializedData) {
+    return Uint8Array.from(atob(data), (char) => char.charCodeAt(0));
+}
@@ -1,8 +1,13 @@
 import { PayloadAction } from "@reduxjs/toolkit";
 import { Dispatch } from "redux";
+import { AsyncCodec, Codec } from "./Codec";
 import { OwnerKey } from "./DiskSpace";
+import { StorageTraceAction } from "./Inspection";
+import { LegacySource } from "./LegacySource";
 import { VersioningConfig, VersioningConfigBuilder } from "./Migration";
-import { StorageKey, WebStorage } from "./WebStorage";
+import { Partition } from "./Partition";
+import { AsyncWebStorage, StorageKey, WebStorage } from "./WebStorage";
+import { WriteStrategy } from "./WriteStrategy";
 
 export type Real = NonNullable<unknown>;
 
@@ -55,6 +60,14 @@ export type SyncSelector<TState, TParent> = (
     parent: TParent,
 ) => SyncUpdate<TState>;
 
+interface OwnershipConfig {
+    /**
+     * Dispatches hydration of the new owner as soon as `select` returns a different owner,
+     * before update effect writes anything for it.
+     */
+    readonly rehydrateOnOwnerChange: boolean;
+}
+
 interface ChangeDetectionConfig<TState> {
     /**
      * Utility option to customize how selected state is compared to a previous one
@@ -69,10 +82,141 @@ interface SerializationConfig {
     readonly json: Pick<typeof JSON, "parse" | "stringify">;
 }
 
+interface CodecConfig<TCodec> {
+    /**
+     * Transformations of serialized state (compression, encryption, encoding), applied in order on write.
+     * Ids of used codecs are stored with the record. Synchronous storages need synchronous codecs,
+     * e.g. `Codec.lzw` instead of `Codec.deflate`.
+     */
+    readonly codecs: readonly TCodec[];
+
+    /**
+     * Codecs that are no longer used for writes, but are still needed to read records written with them
+     */
+    readonly retiredCodecs: readonly TCodec[];
+}
+
+interface StorageLayoutConfig {
+    /**
+     * Prefix of every key written to storage
+     */
+    readonly namespace: string;
+
+    /**
+     * Records of other key layouts (e.g. redux-persist) that are imported by hydration when owner has no record yet.
+     * First source that has state wins, its key is removed once state is imported.
+     */
+    readonly legacySources: readonly LegacySource[];
+}
+
+interface PartitioningConfig<TState> {
+    /**
+     * Stores state of every owner as several partitions under their own keys, only partitions
+     * that changed are written. Owner's record keeps a checksum of every partition.
+     */
+    readonly partition: Partition<TState> | undefined;
+}
+
+interface RecordMetadataConfig {
+    /**
+     * Identifier of the app build (e.g. commit hash) that is written alongside the data for diagnostics
+     */
+    readonly appBuild: string | undefined;
+
+    /**
+     * Stores checksum of serialized data, so that corrupted or truncated records are detected on read
+     */
+    readonly checksum: boolean;
+}
+
+interface ExpiryConfig<TState> {
+    /**
+     * How long (in milliseconds) persisted state stays relevant, can be computed from the state itself.
+     * Expired records are treated as absent by hydration and removed.
+     */
+    readonly ttl: number | ((state: TState) => number) | undefined;
+
+    /**
+     * Source of current time, `Date.now` by default, useful in tests
+     */
+    readonly now: () => number;
+}
+
+interface WriteSchedulingConfig {
+    /**
+     * Defines when update effect writes to storage, pending writes are coalesced per owner so latest state wins.
+     * Anything other than `immediate` also flushes when page gets hidden.
+     */
+    readonly writeStrategy: WriteStrategy;
+}
+
+interface ConflictConfig<TState> {
+    /**
+     * Called before a write when the record was written elsewhere (e.g. by another tab or a service worker)
+     * since it was last read or written here. What it returns is written and hydrated.
+     * By default the last write wins and records are not read before writes.
+     */
+    readonly resolveConflict:
+        | ((local: TState, stored: TState) => TState)
+        | undefined;
+}
+
+interface QuotaConfig {
+    /**
+     * What to do when storage is full: `evict` removes least recently used owners of the same key
+     * until the write succeeds, `report` gives up right away. Either way failed write goes to `onError`.
+     * Only applies to synchronous storages.
+     */
+    readonly quotaPolicy: "report" | "evict";
+
+    /**
+     * Limits amount of owners persisted under the key, least recently used owners are removed
+     * when it's exceeded. Only applies to synchronous storages.
+     */
+    readonly maxOwners: number;
+}
+
+interface ErrorHandlingConfig {
+    /**
+     * Receives errors that persistence has recovered from instead of throwing them,
+     * by default they are passed to `reportError`.
+     */
+    readonly onError: (error: unknown) => void;
+
+    /**
+     * What hydration does with a record that cannot be read, validated or migrated:
+     * - `throw` (default) - error is thrown from the effect
+     * - `reset` - record is removed
+     * - `keep-and-skip` - record is left in place
+     * - `quarantine` - record is moved under a side key for later inspection
+     *
+     * Except for `throw`, error is passed to `onError` and app keeps its initial state.
+     */
+    readonly errorPolicy: "throw" | "reset" | "keep-and-skip" | "quarantine";
+}
+
+interface DiagnosticsConfig {
+    /**
+     * Receives an action for every record read, written or cleared, see `storageTraceActions`
+     */
+    readonly trace: ((action: StorageTraceAction) => void) | undefined;
+}
+
 export interface ConfigCreationOptions<TState extends Real, TParent>
     extends SyncConfig<TState, TParent>,
+        Partial<OwnershipConfig>,
         Partial<ChangeDetectionConfig<TState>>,
-        Partial<SerializationConfig> {
+        Partial<SerializationConfig>,
+        Partial<CodecConfig<Codec>>,
+        Partial<StorageLayoutConfig>,
+        Partial<PartitioningConfig<TState>>,
+        Partial<RecordMetadataConfig>,
+        Partial<ExpiryConfig<TState>>,
+        Partial<WriteSchedulingConfig>,
+        Partial<ConflictConfig<TState>>,
+        Partial<QuotaConfig>,
+        Partial<ErrorHandlingConfig>,
+        Partial<DiagnosticsConfig> {
     /**
      * Instructs hydration effect how to transform deprecated structure of the data to the one current version
      * of the app expects.
@@ -82,11 +226,39 @@ export interface ConfigCreationOptions<TState extends Real, TParent>
         | VersioningConfig<TState>;
 }
 
-export interface Config<TState extends Real, TParent>
-    extends VersioningConfig<TState>,
+interface BaseConfig<TState extends Real, TParent>
+    extends Required<VersioningConfig<TState>>,
         SyncConfig<TState, TParent>,
+        OwnershipConfig,
         ChangeDetectionConfig<TState>,
-        SerializationConfig {
+        SerializationConfig,
+        StorageLayoutConfig,
+        PartitioningConfig<TState>,
+        RecordMetadataConfig,
+        ExpiryConfig<TState>,
+        WriteSchedulingConfig,
+        ConflictConfig<TState>,
+        QuotaConfig,
+        ErrorHandlingConfig,
+        DiagnosticsConfig {
     readonly key: StorageKey;
+}
+
+export interface AsyncConfigCreationOptions<TState extends Real, TParent>
+    extends Omit<
+            ConfigCreationOptions<TState, TParent>,
+            keyof CodecConfig<Codec>
+        >,
+        Partial<CodecConfig<AsyncCodec>> {}
+
+export interface Config<TState extends Real, TParent>
+    extends BaseConfig<TState, TParent>,
+        CodecConfig<Codec> {
     readonly storage: WebStorage;
 }
+
+export interface AsyncConfig<TState extends Real, TParent>
+    extends BaseConfig<TState, TParent>,
+        CodecConfig<AsyncCodec> {
+    readonly storage: AsyncWebStorage;
+}
@@ -0,0 +1,202 @@
+import { SerializedData, StorageKey, WebStorage } from "./WebStorage";
+
+export interface CookieStorageOptions {
+    /**
+     * `Cookie` header of the request being rendered on the server, `document.cookie` is used when omitted
+     */
+    readonly cookieHeader?: string | null;
+
+    /**
+     * Receives `Set-Cookie` header values of writes made on the server
+     */
+    readonly setCookie?: (header: string) => void;
+
+    readonly path?: string;
+    readonly domain?: string;
+    /** in seconds, defaults to 400 days which is the most browsers allow */
+    readonly maxAge?: number;
+    readonly sameSite?: "Strict" | "Lax" | "None";
+    readonly secure?: boolean;
+
+    /**
+     * Longest `name=value` pair written (after URI encoding), values that do not fit are split into
+     * several cookies. Browsers allow about 4 KB per cookie. Defaults to 2000.
+     */
+    readonly chunkSize?: number;
+
+    /**
+     * Writes that need more cookies than this fail with `QuotaExceededError`, defaults to 2.
+     * Every cookie is sent with every request: servers refuse `Cookie` header over 8-16 KB
+     * (e.g. nginx, Node), a budget shared by all keys and the rest of the site's cookies.
+     */
+    readonly maxChunks?: number;
+}
+
+/**
+ * Storage that can be read on the server as well, so that the first render reflects persisted state.
+ * Create it with `cookieHeader` of the request on the server and without options in the browser.
+ */
+export function createCookieStorage(
+    options: CookieStorageOptions = {},
+): WebStorage {
+    // about 4 KB of `Cookie` header per key at most
+    const { chunkSize = 2000, maxChunks = 2 } = options;
+    const jar = createCookieJar(options);
+
+    return {
+        getItem(key) {
+            const cookies = jar.read();
+            const name = encodeURIComponent(key);
+            const value = cookies.get(name);
+            if (value === undefined) return null;
+
+            const count = chunkCount(value);
+            if (count === undefined) return decode(value);
+
+            let joined = "";
+            for (let index = 0; index < count; index++) {
+                const chunk = cookies.get(chunkName(name, index));
+                // chunks of an interrupted write
+                if (chunk === undefined) return null;
+                joined += chunk;
+            }
+            return decode(joined);
+        },
+        setItem(key, value) {
+            const name = encodeURIComponent(key);
+            const encoded = encodeURIComponent(value);
+            const previous = chunkCount(jar.read().get(name)) ?? 0;
+
+            if (name.length + encoded.length + 1 <= chunkSize) {
+                jar.write(name, encoded);
+                removeChunks(name, 0, previous);
+                return;
+            }
+
+            const room = chunkSize - chunkName(name, maxChunks).length - 1;
+            const count =
+                room > 0 ? Math.ceil(encoded.length / room) : Infinity;
+            if (count > maxChunks) {
+                throw new DOMException(
+                    `${key} does not fit into ${maxChunks} cookies`,
+                    "QuotaExceededError",
+                );
+            }
+            // chunks are joined before decoding, so they can split escape sequences
+            for (let index = 0; index < count; index++) {
+                const chunk = encoded.slice(index * room, (index + 1) * room);
+                jar.write(chunkName(name, index), chunk);
+            }
+            jar.write(name, CHUNKED + count);
+            removeChunks(name, count, previous);
+        },
+        removeItem(key) {
+            const name = encodeURIComponent(key);
+            const cookies = jar.read();
+            if (!cookies.has(name)) return;
+
+            removeChunks(name, 0, chunkCount(cookies.get(name)) ?? 0);
+            jar.write(name, undefined);
+        },
+        keys: () =>
+            Array.from(jar.read().keys())
+                .filter((name) => !name.includes(CHUNKED))
+                .map(decode),
+    };
+
+    function removeChunks(name: string, from: number, to: number) {
+        for (let index = from; index < to; index++) {
+            jar.write(chunkName(name, index), undefined);
+        }
+    }
+}
+
+// `encodeURIComponent` never produces "%%", so neither keys nor values can be mistaken for it
+const CHUNKED = "%%";
+
+const chunkName = (name: string, index: number) => name + CHUNKED + index;
+
+const chunkCount = (value: string | undefined) =>
+    value?.startsWith(CHUNKED)
+        ? Number(value.slice(CHUNKED.length))
+        : undefined;
+
+const decode = (encoded: string) => {
+    try {
+        return decodeURIComponent(encoded);
+    } catch {
+        // cookie written by someone else
+        return encoded;
+    }
+};
+
+interface CookieJar {
+    readonly read: () => Map<string, string>;
+    /** `undefined` removes the cookie */
+    readonly write: (name: string, value: string | undefined) => void;
+}
+
+function createCookieJar({
+    cookieHeader,
+    setCookie,
+    ...attributes
+}: CookieStorageOptions): CookieJar {
+    if (cookieHeader !== undefined || typeof document !== "object") {
+        // writes made while rendering are read back from here
+        const cookies = parseCookies(cookieHeader ?? "");
+        return {
+            read: () => cookies,
+            write(name, value) {
+                if (value === undefined) {
+                    cookies.delete(name);
+                } else {
+                    cookies.set(name, value);
+                }
+                setCookie?.(serializeCookie(name, value, attributes));
+            },
+        };
+    }
+    return {
+        read: () => parseCookies(document.cookie),
+        write(name, value) {
+            document.cookie = serializeCookie(name, value, attributes);
+        },
+    };
+}
+
+function parseCookies(header: string): Map<string, SerializedData> {
+    const cookies = new Map<StorageKey, SerializedData>();
+    for (const pair of header.split(";")) {
+        const separator = pair.indexOf("=");
+        if (separator === -1) continue;
+        const name = pair.slice(0, separator).trim();
+        // first one is the most specific when several paths have the same cookie
+        if (name && !cookies.has(name)) {
+            cookies.set(name, pair.slice(separator + 1).trim());
+        }
+    }
+    return cookies;
+}
+
+function serializeCookie(
+    name: string,
+    value: string | undefined,
+    {
+        path = "/",
+        domain,
+        maxAge = 400 * 24 * 60 * 60,
+        sameSite = "Lax",
+        secure,
+    }: Omit<CookieStorageOptions, "cookieHeader" | "setCookie">,
+) {
+    return [
+        `${name}=${value ?? ""}`,
+        `Path=${path}`,
+        domain && `Domain=${domain}`,
+        `Max-Age=${value === undefined ? 0 : maxAge}`,
+        `SameSite=${sameSite}`,
+        secure && "Secure",
+    ]
+        .filter(Boolean)
+        .join("; ");
+}
@@ -1,68 +1,699 @@
-import { Config, Real } from "./Config";
+import { ChangeDetector, createChangeDetector } from "./ChangeDetection";
+import { AsyncConfig, Config, Real } from "./Config";
+import { createTracer } from "./Inspection";
+import { LegacyRecord, getLegacyKey, readLegacyRecord } from "./LegacySource";
+import { Partition, PartitionKey } from "./Partition";
+import {
+    OwnersRecord,
+    PersistedRecord,
+    RecordFormat,
+    Revision,
+    createRecordFormat,
+} from "./RecordFormat";
+import {
+    SerializedData,
+    StorageKey,
+    canEnumerate,
+    listKeys,
+} from "./WebStorage";
 
 export type DiskSpace<TState extends Real> = ReturnType<
     typeof createDiskSpace<TState, never>
 >;
+export type AsyncDiskSpace<TState extends Real> = ReturnType<
+    typeof createAsyncDiskSpace<TState, never>
+>;
 export type OwnerKey = string;
+export type { PersistedRecord };
 
-const NAMESPACE = `aRzf3d7co0u-DISK`;
+/**
+ * Record as it is stored, read without side effects of `get`
+ */
+export interface PeekedRecord {
+    readonly storageKey: StorageKey;
+    readonly storedString: SerializedData;
+    readonly expired: boolean;
+    /** missing when record cannot be read */
+    readonly record?: PersistedRecord;
+    readonly error?: unknown;
+}
 
 export function createDiskSpace<TState extends Real, TParent>(
     config: Required<Config<TState, TParent>>,
 ) {
-    const { storage, json, version: latestVersion } = config;
+    const { storage, quotaPolicy, maxOwners, onError, now, legacySources } =
+        config;
+    const format = createRecordFormat(config);
+    const tracer = createTracer(config);
+    const partitions =
+        config.partition && createPartitionTracker(config.partition, format);
+    const readItem = (key: StorageKey) => storage.getItem(key);
+    // last read or written, see `resolveConflict`
+    const revisions = new Map<OwnerKey, Revision | undefined>();
+    const createRevision = () =>
+        config.resolveConflict ? format.createRevision() : undefined;
 
-    const namespacedKey = `${NAMESPACE}:${config.key}:`;
-    const separator = "|";
+    // access times are needed for eviction, owners themselves - for storages that cannot enumerate
+    const tracksOwners =
+        !canEnumerate(storage) ||
+        quotaPolicy === "evict" ||
+        maxOwners < Infinity;
 
     return {
         clearAll,
         clear,
         set,
         get,
+        getWrittenElsewhere,
+        getLegacy,
+        removeLegacy,
+        quarantine,
+        listOwners,
+        sweepExpired,
+        subscribe,
+        peek,
     };
 
     function get(owner: OwnerKey) {
-        const storedString = storage.getItem(getOwnedKey(owner));
-        if (!storedString) return undefined;
+        const ownedKey = format.getOwnedKey(owner);
+        const storedString = storage.getItem(ownedKey);
+        if (storedString && format.isExpired(storedString)) {
+            clear(owner);
+            return undefined;
+        }
+        const persisted = format.parse(storedString, owner, readItem);
+        if (persisted && storedString) {
+            tracer.read(owner, ownedKey, storedString, persisted);
+            partitions?.remember(owner, persisted);
+            revisions.set(owner, persisted.revision);
+            if (format.isLegacy(storedString)) {
+                upgradeLegacy(ownedKey, storedString);
+            }
+            updateOwners((owners) => (owners[owner] = now()));
+        }
+        return persisted;
+    }
 
-        const separatorIdx = storedString.indexOf(separator);
+    /**
+     * Record of the owner that was written elsewhere since it was last read or written here
+     */
+    function getWrittenElsewhere(owner: OwnerKey) {
+        const storedString = storage.getItem(format.getOwnedKey(owner));
+        if (
+            !storedString ||
+            format.getRevision(storedString) === revisions.get(owner)
+        ) {
+            return undefined;
+        }
+        return format.parse(storedString, owner, readItem);
+    }
 
-        const version = parseInt(storedString.slice(0, separatorIdx));
-        const data: unknown = json.parse(storedString.slice(separatorIdx + 1));
+    /**
+     * State of the first legacy source that has it, see `legacySources`
+     */
+    function getLegacy(owner: OwnerKey) {
+        for (const source of legacySources) {
+            const legacyKey = getLegacyKey(source, owner);
+            const storedString = storage.getItem(legacyKey);
+            const record = readLegacyRecord(source, legacyKey, storedString);
+            if (record) return record;
+        }
+        return undefined;
+    }
 
-        if (data == null || typeof version !== "number") return undefined;
+    function removeLegacy({ source, legacyKey, storedString }: LegacyRecord) {
+        const rest = source.rest?.(storedString);
+        if (rest === undefined) {
+            storage.removeItem(legacyKey);
+        } else {
+            storage.setItem(legacyKey, rest);
+        }
+    }
 
-        return { data, version };
+    function upgradeLegacy(ownedKey: StorageKey, storedString: SerializedData) {
+        try {
+            storage.setItem(ownedKey, format.upgradeLegacy(storedString));
+        } catch (error) {
+            onError(error);
+        }
     }
 
-    function set(owner: OwnerKey, state: TState) {
-        storage.setItem(
-            getOwnedKey(owner),
-            latestVersion + separator + json.stringify(state),
-        );
+    /**
+     * @returns whether the record was written, failed write is passed to `onError`
+     */
+    function set(owner: OwnerKey, state: TState): boolean {
+        const ownedKey = format.getOwnedKey(owner);
+        const revision = createRevision();
+        let written: PartitionedWrite | undefined;
+        try {
+            // serialization fails as well, e.g. on values `json` cannot represent
+            written = partitions
+                ? partitions.serialize(
+                      owner,
+                      state,
+                      storage.getItem(ownedKey),
+                      revision,
+                  )
+                : {
+                      record: format.serialize(state, owner, revision),
+                      writes: [],
+                      removed: format.getPartitionKeys(
+                          owner,
+                          storage.getItem(ownedKey),
+                      ),
+                  };
+            // partitions go first, record must not refer to ones that are not written yet
+            for (const [key, payload] of written.writes) {
+                setEvicting(owner, key, payload);
+            }
+            setEvicting(owner, ownedKey, written.record);
+            written.removed.forEach((key) => storage.removeItem(key));
+            revisions.set(owner, revision);
+            updateOwners((owners) => (owners[owner] = now()));
+        } catch (error) {
+            // record still refers to previous partitions
+            written?.writes.forEach(([key]) => storage.removeItem(key));
+            partitions?.forget(owner);
+            onError(error);
+            return false;
+        }
+        tracer.written(owner, ownedKey, written.record, state);
+        if (maxOwners < Infinity) {
+            for (const evicted of byRecentUse(owner).slice(maxOwners - 1)) {
+                clear(evicted);
+            }
+        }
+        return true;
+    }
+
+    function setEvicting(
+        owner: OwnerKey,
+        key: StorageKey,
+        value: SerializedData,
+    ) {
+        const candidates = quotaPolicy === "evict" ? byRecentUse(owner) : [];
+        for (;;) {
+            try {
+                return storage.setItem(key, value);
+            } catch (error) {
+                const evicted = candidates.pop();
+                if (!isQuotaExceededError(error) || evicted === undefined) {
+                    throw error;
+                }
+                clear(evicted);
+            }
+        }
     }
 
     function clear(owner: OwnerKey) {
-        storage.removeItem(getOwnedKey(owner));
+        remove(owner);
+        updateOwners((owners) => delete owners[owner]);
+    }
+
+    function remove(owner: OwnerKey) {
+        const ownedKey = format.getOwnedKey(owner);
+        const partitionKeys = format.getPartitionKeys(
+            owner,
+            storage.getItem(ownedKey),
+        );
+        // record goes first, so that it never refers to removed partitions
+        storage.removeItem(ownedKey);
+        partitionKeys.forEach((key) => storage.removeItem(key));
+        partitions?.forget(owner);
+        revisions.delete(owner);
+        format.forget(owner);
+        tracer.cleared(owner, ownedKey);
+    }
+
+    /**
+     * Moves record that cannot be read under a side key, so that it does not stand in the way of new state
+     */
+    function quarantine(owner: OwnerKey) {
+        const storedString = storage.getItem(format.getOwnedKey(owner));
+        if (storedString) {
+            try {
+                storage.setItem(format.getQuarantineKey(owner), storedString);
+            } catch (error) {
+                onError(error);
+            }
+        }
+        clear(owner);
     }
 
     function clearAll() {
-        for (const owner of getOwners()) {
-            storage.removeItem(getOwnedKey(owner));
+        for (const owner of listOwners()) {
+            remove(owner);
+        }
+        for (const key of listKeys(storage) ?? []) {
+            // partitions are left behind when partitioning is turned off
+            if (format.isQuarantineKey(key) || format.isPartitionKey(key)) {
+                storage.removeItem(key);
+            }
+        }
+        if (tracksOwners) {
+            storage.removeItem(format.ownersKey);
+        }
+    }
+
+    function sweepExpired() {
+        for (const owner of listOwners()) {
+            const storedString = storage.getItem(format.getOwnedKey(owner));
+            try {
+                if (storedString && format.isExpired(storedString)) {
+                    clear(owner);
+                }
+            } catch (error) {
+                // corrupted record is left for hydration to deal with
+                onError(error);
+            }
+        }
+    }
+
+    function listOwners(): OwnerKey[] {
+        const keys = listKeys(storage);
+        if (keys) {
+            return Array.from(format.getOwners(keys));
+        }
+        return Object.keys(readOwners());
+    }
+
+    function peek(owner: OwnerKey): PeekedRecord | undefined {
+        const storageKey = format.getOwnedKey(owner);
+        const storedString = storage.getItem(storageKey);
+        if (!storedString) return undefined;
+        try {
+            const expired = format.isExpired(storedString);
+            const record = format.parse(storedString, owner, readItem);
+            return { storageKey, storedString, expired, record };
+        } catch (error) {
+            return { storageKey, storedString, expired: false, error };
+        }
+    }
+
+    /**
+     * Other owners of the key, most recently used first, so that eviction can `pop` them
+     */
+    function byRecentUse(except: OwnerKey) {
+        const accessedAt = readOwners();
+        return listOwners()
+            .filter((owner) => owner !== except)
+            .sort((a, b) => (accessedAt[b] ?? 0) - (accessedAt[a] ?? 0));
+    }
+
+    function readOwners() {
+        return format.parseOwners(storage.getItem(format.ownersKey));
+    }
+
+    function updateOwners(update: (owners: OwnersRecord) => void) {
+        if (!tracksOwners) return;
+        const owners = readOwners();
+        update(owners);
+        try {
+            storage.setItem(format.ownersKey, format.serializeOwners(owners));
+        } catch (error) {
+            onError(error);
+        }
+    }
+
+    /**
+     * Notifies about records written by other tabs, `storage` event is never fired in the tab that made the write.
+     */
+    function subscribe(
+        listener: (owner: OwnerKey, persisted: PersistedRecord) => void,
+    ) {
+        if (typeof self !== "object" || !("addEventListener" in self)) {
+            return () => {};
+        }
+        const onStorage = (event: StorageEvent) => {
+            // same key can be written to another storage, e.g. `sessionStorage`
+            if (event.storageArea !== (storage.storageArea ?? storage)) return;
+            const owner = event.key ? format.getOwner(event.key) : undefined;
+            if (owner == null) return;
+            let persisted: PersistedRecord | undefined;
+            try {
+                persisted = format.parse(event.newValue, owner, readItem);
+            } catch (error) {
+                // e.g. written by a newer build with a codec this one does not know
+                onError(error);
+                return;
+            }
+            // removals are ignored, there is no state that hydration could restore
+            if (!persisted) return;
+            partitions?.remember(owner, persisted);
+            // hydrated by the listener, so it is not a conflict for the next write
+            revisions.set(owner, persisted.revision);
+            listener(owner, persisted);
+        };
+        self.addEventListener("storage", onStorage);
+        return () => self.removeEventListener("storage", onStorage);
+    }
+}
+
+export function createAsyncDiskSpace<TState extends Real, TParent>(
+    config: Required<AsyncConfig<TState, TParent>>,
+) {
+    const { storage, onError, legacySources } = config;
+    const format = createRecordFormat(config);
+    const tracer = createTracer(config);
+    const partitions =
+        config.partition && createPartitionTracker(config.partition, format);
+    const readItem = (key: StorageKey) => storage.getItem(key);
+    // last read or written, see `resolveConflict`
+    const revisions = new Map<OwnerKey, Revision | undefined>();
+    const createRevision = () =>
+        config.resolveConflict ? format.createRevision() : undefined;
+
+    return {
+        clearAll,
+        clear,
+        set,
+        get,
+        getWrittenElsewhere,
+        getLegacy,
+        removeLegacy,
+        quarantine,
+        listOwners,
+        sweepExpired,
+        peek,
+    };
+
+    async function get(owner: OwnerKey) {
+        const ownedKey = format.getOwnedKey(owner);
+        const storedString = await storage.getItem(ownedKey);
+        if (storedString && format.isExpired(storedString)) {
+            await clear(owner);
+            return undefined;
+        }
+        const persisted = await format.parseAsync(
+            storedString,
+            owner,
+            readItem,
+        );
+        if (persisted && storedString) {
+            tracer.read(owner, ownedKey, storedString, persisted);
+            partitions?.remember(owner, persisted);
+            revisions.set(owner, persisted.revision);
+            if (format.isLegacy(storedString)) {
+                await storage.setItem(
+                    ownedKey,
+                    format.upgradeLegacy(storedString),
+                );
+            }
+        }
+        return persisted;
+    }
+
+    async function getWrittenElsewhere(owner: OwnerKey) {
+        const storedString = await storage.getItem(format.getOwnedKey(owner));
+        if (
+            !storedString ||
+            format.getRevision(storedString) === revisions.get(owner)
+        ) {
+            return undefined;
+        }
+        return format.parseAsync(storedString, owner, readItem);
+    }
+
+    async function getLegacy(owner: OwnerKey) {
+        for (const source of legacySources) {
+            const legacyKey = getLegacyKey(source, owner);
+            const storedString = await storage.getItem(legacyKey);
+            const record = readLegacyRecord(source, legacyKey, storedString);
+            if (record) return record;
+        }
+        return undefined;
+    }
+
+    async function removeLegacy({
+        source,
+        legacyKey,
+        storedString,
+    }: LegacyRecord) {
+        const rest = source.rest?.(storedString);
+        if (rest === undefined) {
+            await storage.removeItem(legacyKey);
+        } else {
+            await storage.setItem(legacyKey, rest);
+        }
+    }
+
+    async function set(owner: OwnerKey, state: TState) {
+        const ownedKey = format.getOwnedKey(owner);
+        const revision = createRevision();
+        const { record, writes, removed }: PartitionedWrite = partitions
+            ? await partitions.serializeAsync(
+                  owner,
+                  state,
+                  await storage.getItem(ownedKey),
+                  revision,
+              )
+            : {
+                  record: await format.serializeAsync(state, owner, revision),
+                  writes: [],
+                  removed: format.getPartitionKeys(
+                      owner,
+                      await storage.getItem(ownedKey),
+                  ),
+              };
+        try {
+            await Promise.all(
+                writes.map(([key, payload]) => storage.setItem(key, payload)),
+            );
+            await storage.setItem(ownedKey, record);
+            revisions.set(owner, revision);
+        } catch (error) {
+            await Promise.all(
+                writes.map(([key]) => storage.removeItem(key)),
+            ).catch(() => {});
+            partitions?.forget(owner);
+            throw error;
+        }
+        await Promise.all(removed.map((key) => storage.removeItem(key)));
+        tracer.written(owner, ownedKey, record, state);
+    }
+
+    async function clear(owner: OwnerKey) {
+        const ownedKey = format.getOwnedKey(owner);
+        const partitionKeys = format.getPartitionKeys(
+            owner,
+            await storage.getItem(ownedKey),
+        );
+        await storage.removeItem(ownedKey);
+        await Promise.all(partitionKeys.map((key) => storage.removeItem(key)));
+        partitions?.forget(owner);
+        revisions.delete(owner);
+        format.forget(owner);
+        tracer.cleared(owner, ownedKey);
+    }
+
+    async function quarantine(owner: OwnerKey) {
+        const storedString = await storage.getItem(format.getOwnedKey(owner));
+        if (storedString) {
+            try {
+                await storage.setItem(
+                    format.getQuarantineKey(owner),
+                    storedString,
+                );
+            } catch (error) {
+                onError(error);
+            }
+        }
+        await clear(owner);
+    }
+
+    async function clearAll() {
+        const keys = await storage.getAllKeys();
+        const owners = format.getOwners(keys);
+        await Promise.all([
+            ...Array.from(owners, clear),
+            ...keys
+                .filter(
+                    (key) =>
+                        format.isQuarantineKey(key) ||
+                        format.isPartitionKey(key),
+                )
+                .map((key) => storage.removeItem(key)),
+        ]);
+    }
+
+    async function sweepExpired() {
+        const owners = await listOwners();
+        await Promise.all(
+            owners.map(async (owner) => {
+                const ownedKey = format.getOwnedKey(owner);
+                const storedString = await storage.getItem(ownedKey);
+                try {
+                    if (storedString && format.isExpired(storedString)) {
+                        await clear(owner);
+                    }
+                } catch (error) {
+                    onError(error);
+                }
+            }),
+        );
+    }
+
+    async function listOwners() {
+        return Array.from(format.getOwners(await storage.getAllKeys()));
+    }
+
+    async function peek(owner: OwnerKey): Promise<PeekedRecord | undefined> {
+        const storageKey = format.getOwnedKey(owner);
+        const storedString = await storage.getItem(storageKey);
+        if (!storedString) return undefined;
+        try {
+            const expired = format.isExpired(storedString);
+            const record = await format.parseAsync(
+                storedString,
+                owner,
+                readItem,
+            );
+            return { storageKey, storedString, expired, record };
+        } catch (error) {
+            return { storageKey, storedString, expired: false, error };
+        }
+    }
+}
+
+interface PartitionedWrite {
+    readonly record: SerializedData;
+    /** partitions to write before the record */
+    readonly writes: (readonly [StorageKey, SerializedData])[];
+    /** partitions that state no longer has, removed after the record */
+    readonly removed: StorageKey[];
+}
+
+/**
+ * Remembers partitions that were last read or written, so that writes skip the ones that did not change
+ */
+function createPartitionTracker<TState extends Real>(
+    partition: Partition<TState>,
+    format: RecordFormat<TState>,
+) {
+    const { compare = Object.is } = partition;
+    const remembered = new Map<OwnerKey, ChangeDetector<Real>>();
+
+    return { serialize, serializeAsync, remember, forget };
+
+    function serialize(
+        owner: OwnerKey,
+        state: TState,
+        storedString: SerializedData | null,
+        revision: Revision | undefined,
+    ): PartitionedWrite {
+        const { changed, compose } = diff(owner, state, storedString, revision);
+        return compose(
+            changed.map(([name, data]) => [
+                name,
+                format.serializePartition(data, owner),
+            ]),
+        );
+    }
+
+    async function serializeAsync(
+        owner: OwnerKey,
+        state: TState,
+        storedString: SerializedData | null,
+        revision: Revision | undefined,
+    ): Promise<PartitionedWrite> {
+        const { changed, compose } = diff(owner, state, storedString, revision);
+        const serialized = changed.map(
+            async ([name, data]) =>
+                [
+                    name,
+                    await format.serializePartitionAsync(data, owner),
+                ] as const,
+        );
+        return compose(await Promise.all(serialized));
+    }
+
+    /**
+     * Partitions that changed or are missing from the stored record are serialized, the rest are referred to as they are
+     */
+    function diff(
+        owner: OwnerKey,
+        state: TState,
+        storedString: SerializedData | null,
+        revision: Revision | undefined,
+    ) {
+        const stored = format.getPartitions(storedString);
+        const changes = changesOf(owner);
+        const split = Object.entries(partition.split(state));
+        const changed = split.filter(
+            ([name, data]) =>
+                changes.hasChanged(name, data) || !stored.has(name),
+        );
+        const compose = (
+            serialized: (readonly [
+                PartitionKey,
+                { readonly payload: SerializedData; readonly checksum: string },
+            ])[],
+        ): PartitionedWrite => {
+            const checksums = new Map(stored);
+            for (const [name, { checksum }] of serialized) {
+                checksums.set(name, checksum);
+            }
+            const partitions = split.map(
+                ([name]) => [name, checksums.get(name)!] as const,
+            );
+            const referenced = new Set(
+                partitions.map(([name, checksum]) =>
+                    format.getPartitionKey(owner, name, checksum),
+                ),
+            );
+            return {
+                record: format.serializeManifest(
+                    state,
+                    revision,
+                    Object.fromEntries(partitions),
+                ),
+                writes: serialized
+                    // same payload is already stored under the same key
+                    .filter(
+                        ([name, { checksum }]) => stored.get(name) !== checksum,
+                    )
+                    .map(([name, { payload, checksum }]) => [
+                        format.getPartitionKey(owner, name, checksum),
+                        payload,
+                    ]),
+                removed: format
+                    .getPartitionKeys(owner, storedString)
+                    .filter((key) => !referenced.has(key)),
+            };
+        };
+        return { changed, compose };
+    }
+
+    // marks partitions that came from storage as already persisted
+    function remember(owner: OwnerKey, { partitions = {} }: PersistedRecord) {
+        const changes = changesOf(owner);
+        for (const [name, data] of Object.entries(partitions)) {
+            changes.remember(name, data);
         }
     }
 
-    function* getOwners() {
-        // this must work since storage has a `map` internal property
-        // https://html.spec.whatwg.org/multipage/webstorage.html#concept-storage-map
-        // support is 98%+ https://caniuse.com/namevalue-storage
-        for (const key of Object.keys(storage))
-            if (key.startsWith(namespacedKey))
-                yield key.replace(namespacedKey, "");
+    // partitions were removed or not written, they have to be written again
+    function forget(owner: OwnerKey) {
+        remembered.delete(owner);
     }
 
-    function getOwnedKey(owner: OwnerKey) {
-        return namespacedKey + owner;
+    function changesOf(owner: OwnerKey) {
+        let changes = remembered.get(owner);
+        if (!changes) {
+            changes = createChangeDetector(compare);
+            remembered.set(owner, changes);
+        }
+        return changes;
     }
 }
+
+export function isQuotaExceededError(error: unknown) {
+    return (
+        error instanceof DOMException &&
+        // Firefox uses its own name and code
+        (error.name === "QuotaExceededError" ||
+            error.name === "NS_ERROR_DOM_QUOTA_REACHED" ||
+            error.code === 22 ||
+            error.code === 1014)
+    );
+}
@@ -0,0 +1,97 @@
+import { isQuotaExceededError } from "./DiskSpace";
+import {
+    SerializedData,
+    StorageKey,
+    WebStorage,
+    canEnumerate,
+    listKeys,
+} from "./WebStorage";
+
+export interface FallbackStatus {
+    /** position of the active backend in the chain */
+    readonly index: number;
+    readonly backend: WebStorage;
+    /** error that made the chain give up on the previous backend */
+    readonly error?: unknown;
+}
+
+export interface FallbackStorage extends WebStorage {
+    readonly status: () => FallbackStatus;
+    readonly subscribe: (
+        listener: (status: FallbackStatus) => void,
+    ) => () => void;
+}
+
+/**
+ * Uses the first backend that works, e.g. `fallbackStorage(local, session, memory)`.
+ * Moves to the next one when a backend fails the probe or throws on write. Quota errors are
+ * left to `quotaPolicy`, full storage still works for reads.
+ * State written to a backend that was given up on is not carried over.
+ */
+export function fallbackStorage(
+    ...backends: [WebStorage, ...WebStorage[]]
+): FallbackStorage {
+    const listeners = new Set<(status: FallbackStatus) => void>();
+    let status = activate(0, undefined);
+
+    return {
+        getItem: (key) => status.backend.getItem(key),
+        setItem: (key, value) =>
+            withFallback((backend) => backend.setItem(key, value)),
+        removeItem: (key) => withFallback((backend) => backend.removeItem(key)),
+        // enumeration is only offered when every backend has it, otherwise owners are tracked by `DiskSpace`
+        keys: backends.every(canEnumerate)
+            ? () => listKeys(status.backend) ?? []
+            : undefined,
+        get storageArea() {
+            return status.backend.storageArea ?? status.backend;
+        },
+        status: () => status,
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => void listeners.delete(listener);
+        },
+    };
+
+    function withFallback(write: (backend: WebStorage) => void) {
+        for (;;) {
+            try {
+                return write(status.backend);
+            } catch (error) {
+                if (
+                    isQuotaExceededError(error) ||
+                    status.index === backends.length - 1
+                ) {
+                    throw error;
+                }
+                status = activate(status.index + 1, error);
+                listeners.forEach((listener) => listener(status));
+            }
+        }
+    }
+
+    function activate(from: number, error: unknown): FallbackStatus {
+        for (let index = from; index < backends.length; index++) {
+            try {
+                probe(backends[index]);
+                return { index, backend: backends[index], error };
+            } catch (probeError) {
+                error = probeError;
+            }
+        }
+        // nothing works, the last backend is used anyway so that errors reach `onError`
+        const index = backends.length - 1;
+        return { index, backend: backends[index], error };
+    }
+}
+
+function probe(backend: WebStorage) {
+    const testKey: StorageKey = "PERSIST_TEST:fallback";
+    const testValue: SerializedData = String(Math.random());
+    backend.setItem(testKey, testValue);
+    const readBack = backend.getItem(testKey);
+    backend.removeItem(testKey);
+    if (readBack !== testValue) {
+        throw new Error("[PERSISTENCE] Storage does not keep written values");
+    }
+}
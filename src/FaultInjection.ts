@@ -0,0 +1,88 @@
+import {
+    AsyncWebStorage,
+    SerializedData,
+    StorageKey,
+    WebStorage,
+} from "./WebStorage";
+
+/**
+ * Faults are read on every call, so they can be changed while storage is in use
+ */
+export interface Faults {
+    /** `setItem` throws `QuotaExceededError`, for every key or the ones function accepts */
+    quota?: boolean | ((key: StorageKey, value: SerializedData) => boolean);
+    /** alters values returned by `getItem`, `truncate` cuts them in half */
+    corrupt?:
+        | "truncate"
+        | ((value: SerializedData, key: StorageKey) => SerializedData);
+    /** delay in milliseconds of every call, only applies to async storages */
+    latency?: number;
+}
+
+/**
+ * Wraps storage so that error paths can be tested against real persistence effects
+ */
+export function withFaults(storage: WebStorage, faults: Faults): WebStorage {
+    return {
+        getItem: (key) => corrupt(faults, key, storage.getItem(key)),
+        setItem(key, value) {
+            failOnQuota(faults, key, value);
+            storage.setItem(key, value);
+        },
+        removeItem: (key) => storage.removeItem(key),
+        keys: storage.keys && (() => storage.keys!()),
+        key: storage.key && ((index) => storage.key!(index)),
+        get length() {
+            return storage.length;
+        },
+    };
+}
+
+export function withAsyncFaults(
+    storage: AsyncWebStorage,
+    faults: Faults,
+): AsyncWebStorage {
+    const delay = () =>
+        new Promise((resolve) => setTimeout(resolve, faults.latency ?? 0));
+    return {
+        async getItem(key) {
+            await delay();
+            return corrupt(faults, key, await storage.getItem(key));
+        },
+        async setItem(key, value) {
+            await delay();
+            failOnQuota(faults, key, value);
+            await storage.setItem(key, value);
+        },
+        async removeItem(key) {
+            await delay();
+            await storage.removeItem(key);
+        },
+        async getAllKeys() {
+            await delay();
+            return storage.getAllKeys();
+        },
+    };
+}
+
+function failOnQuota(faults: Faults, key: StorageKey, value: SerializedData) {
+    const { quota } = faults;
+    if (typeof quota === "function" ? quota(key, value) : quota) {
+        throw new DOMException(
+            `[fault] ${key} does not fit into storage`,
+            "QuotaExceededError",
+        );
+    }
+}
+
+function corrupt(
+    faults: Faults,
+    key: StorageKey,
+    value: SerializedData | null,
+) {
+    const { corrupt } = faults;
+    if (value === null || !corrupt) return value;
+    return corrupt === "truncate"
+        ? value.slice(0, Math.floor(value.length / 2))
+        : corrupt(value, key);
+}
@@ -0,0 +1,121 @@
+import {
+    PayloadAction,
+    PayloadActionCreator,
+    SerializedError,
+    createAction,
+    createSlice,
+} from "@reduxjs/toolkit";
+import { OwnerKey } from "./DiskSpace";
+import { StorageKey } from "./WebStorage";
+
+export type HydrationSkipReason =
+    /** `select` returned no owner */
+    | "no-owner"
+    /** nothing is persisted for the owner, or record has expired */
+    | "not-found"
+    /** persisted version is newer than the current one, record was removed */
+    | "version-reset";
+
+export type HydrationStatus =
+    | "idle"
+    | "pending"
+    | "hydrated"
+    | "skipped"
+    | "failed";
+
+interface HydrationMeta {
+    readonly key: StorageKey;
+    readonly owner?: OwnerKey;
+}
+
+const hydrationStarted = createAction<HydrationMeta>(
+    "persistence/hydrationStarted",
+);
+const hydrated = createAction<
+    HydrationMeta & { fromVersion: number; migrated: boolean }
+>("persistence/hydrated");
+const hydrationSkipped = createAction<
+    HydrationMeta & { reason: HydrationSkipReason }
+>("persistence/hydrationSkipped");
+const hydrationFailed = createAction<
+    HydrationMeta & { error: SerializedError }
+>("persistence/hydrationFailed");
+
+/**
+ * Dispatched by every hydrate effect, `key` in the payload tells effects apart
+ */
+export const hydrationActions = {
+    hydrationStarted,
+    hydrated,
+    hydrationSkipped,
+    hydrationFailed,
+} as const;
+
+export type HydrationActions = ReturnType<typeof createHydrationActions>;
+
+/**
+ * Actions of a single key, their `match` ignores actions of other keys
+ */
+export function createHydrationActions(key: StorageKey) {
+    return {
+        hydrationStarted: bindKey(hydrationStarted, key),
+        hydrated: bindKey(hydrated, key),
+        hydrationSkipped: bindKey(hydrationSkipped, key),
+        hydrationFailed: bindKey(hydrationFailed, key),
+    };
+}
+
+const bindKey = <P extends HydrationMeta, T extends string>(
+    actionCreator: PayloadActionCreator<P, T>,
+    key: StorageKey,
+) =>
+    Object.assign(
+        (payload: Omit<P, "key">) => actionCreator({ ...payload, key } as P),
+        {
+            type: actionCreator.type,
+            match: (action: unknown): action is PayloadAction<P, T> =>
+                actionCreator.match(action) && action.payload.key === key,
+        },
+    );
+
+export const hydrationStatusSlice = createSlice({
+    name: "hydrationStatus",
+    initialState: {} as Record<StorageKey, HydrationStatus>,
+    reducers: {},
+    extraReducers: ({ addCase }) => {
+        addCase(hydrationStarted, (state, { payload }) => {
+            state[payload.key] = "pending";
+        });
+        addCase(hydrated, (state, { payload }) => {
+            state[payload.key] = "hydrated";
+        });
+        addCase(hydrationSkipped, (state, { payload }) => {
+            state[payload.key] = "skipped";
+        });
+        addCase(hydrationFailed, (state, { payload }) => {
+            state[payload.key] = "failed";
+        });
+    },
+    selectors: {
+        selectHydrationStatus: (state, key: StorageKey): HydrationStatus =>
+            state[key] ?? "idle",
+    },
+});
+
+export const hydrationStatusReducer = hydrationStatusSlice.reducer;
+export const { selectHydrationStatus } = hydrationStatusSlice.selectors;
+
+/**
+ * Status of several keys at once: failed if any has failed, pending until every key is settled,
+ * skipped only when every key was skipped
+ */
+export function combineHydrationStatus(
+    statuses: readonly HydrationStatus[],
+): HydrationStatus {
+    if (statuses.includes("failed")) return "failed";
+    if (statuses.every((status) => status === "idle")) return "idle";
+    if (statuses.some((status) => status === "idle" || status === "pending")) {
+        return "pending";
+    }
+    return statuses.includes("hydrated") ? "hydrated" : "skipped";
+}
@@ -0,0 +1,86 @@
+import { AsyncWebStorage, SerializedData, StorageKey } from "./WebStorage";
+
+export interface IndexedDBStorageOptions {
+    readonly databaseName?: string;
+    readonly storeName?: string;
+    /**
+     * Defaults to `self.indexedDB`, can be replaced with an in-memory implementation in tests
+     */
+    readonly indexedDB?: IDBFactory;
+}
+
+export function createIndexedDBStorage({
+    databaseName = "redux-storage-effect",
+    storeName = "records",
+    indexedDB,
+}: IndexedDBStorageOptions = {}): AsyncWebStorage {
+    let database: Promise<IDBDatabase> | undefined;
+
+    return {
+        getItem: async (key: StorageKey) => {
+            const item = await run("readonly", (store) => store.get(key));
+            return typeof item === "string" ? item : null;
+        },
+        setItem: async (key: StorageKey, item: SerializedData) => {
+            await run("readwrite", (store) => store.put(item, key));
+        },
+        removeItem: async (key: StorageKey) => {
+            await run("readwrite", (store) => store.delete(key));
+        },
+        getAllKeys: async () => {
+            const keys = await run("readonly", (store) => store.getAllKeys());
+            return keys.map(String);
+        },
+    };
+
+    async function run<T>(
+        mode: IDBTransactionMode,
+        operation: (store: IDBObjectStore) => IDBRequest<T>,
+    ) {
+        const db = await (database ??= open().catch((error) => {
+            database = undefined;
+            throw error;
+        }));
+        return new Promise<T>((resolve, reject) => {
+            const transaction = db.transaction(storeName, mode);
+            const request = operation(transaction.objectStore(storeName));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+
+    async function open() {
+        const db = await connect();
+        if (db.objectStoreNames.contains(storeName)) return db;
+        // database is shared with storages of other store names, missing store is created by an upgrade
+        db.close();
+        return connect(db.version + 1);
+    }
+
+    function connect(version?: number) {
+        return new Promise<IDBDatabase>((resolve, reject) => {
+            const factory =
+                indexedDB ?? (typeof self === "object" && self.indexedDB);
+            if (!factory) {
+                throw new Error("[PERSISTENCE] IndexedDB is not available.");
+            }
+            const request = factory.open(databaseName, version);
+            request.onupgradeneeded = () => {
+                if (!request.result.objectStoreNames.contains(storeName)) {
+                    request.result.createObjectStore(storeName);
+                }
+            };
+            request.onsuccess = () => {
+                const db = request.result;
+                // lets storage of another store name upgrade the database, next call opens it again
+                db.onversionchange = () => {
+                    db.close();
+                    database = undefined;
+                };
+                resolve(db);
+            };
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
@@ -0,0 +1,166 @@
+import { createAction } from "@reduxjs/toolkit";
+import { Config, Real } from "./Config";
+import type { OwnerKey, PeekedRecord } from "./DiskSpace";
+import {
+    ResetSentinel,
+    ShapeDescription,
+    TypeDescription,
+    describeShape,
+} from "./Migration";
+import { PersistedRecord } from "./RecordFormat";
+import { SerializedData, StorageKey } from "./WebStorage";
+
+export type RecordStatus =
+    /** hydration uses it as is */
+    | "current"
+    /** hydration migrates it to the current version */
+    | "outdated"
+    /** written by a newer build that left no downgrade, hydration resets it */
+    | "newer"
+    | "expired"
+    /** cannot be read, see `errorPolicy` */
+    | "corrupted"
+    /** fails migration or validation, see `errorPolicy` */
+    | "invalid";
+
+/**
+ * What is stored for an owner, state itself is only described by its shape
+ */
+export interface RecordInspection {
+    readonly owner: OwnerKey;
+    readonly storageKey: StorageKey;
+    /** UTF-8 size of the stored string */
+    readonly bytes: number;
+    readonly status: RecordStatus;
+    readonly version?: number;
+    readonly savedAt?: number;
+    readonly appBuild?: string;
+    readonly shape?: ShapeDescription | TypeDescription;
+    /** message of the error that makes record unusable */
+    readonly error?: string;
+}
+
+export function inspectRecord<TState extends Real>(
+    config: Pick<Config<TState, never>, "version" | "migrate">,
+    owner: OwnerKey,
+    { storageKey, storedString, expired, record, error }: PeekedRecord,
+): RecordInspection {
+    const inspection = { owner, storageKey, bytes: byteLength(storedString) };
+    if (!record) {
+        return {
+            ...inspection,
+            status: "corrupted",
+            error: error instanceof Error ? error.message : String(error),
+        };
+    }
+    const { data, version, savedAt, appBuild } = record;
+    const described = {
+        ...inspection,
+        version,
+        savedAt,
+        appBuild,
+        shape: describeShape(data),
+    };
+    if (expired) {
+        return { ...described, status: "expired" };
+    }
+    if (version === config.version) {
+        return { ...described, status: "current" };
+    }
+    try {
+        const migrated = config.migrate(data, version);
+        return {
+            ...described,
+            status: migrated === ResetSentinel ? "newer" : "outdated",
+        };
+    } catch (error) {
+        return {
+            ...described,
+            status: "invalid",
+            error: error instanceof Error ? error.message : String(error),
+        };
+    }
+}
+
+// Trace
+
+interface TraceMeta {
+    /** key of the effects */
+    readonly key: StorageKey;
+    readonly owner: OwnerKey;
+    readonly storageKey: StorageKey;
+}
+
+interface RecordTrace extends TraceMeta {
+    readonly bytes: number;
+    readonly version: number;
+    readonly shape: ShapeDescription | TypeDescription;
+}
+
+const recordRead = createAction<RecordTrace>("persistence/recordRead");
+const recordWritten = createAction<RecordTrace>("persistence/recordWritten");
+const recordCleared = createAction<TraceMeta>("persistence/recordCleared");
+
+/**
+ * Passed to `trace` option on every storage access, e.g. `trace: (action) => store.dispatch(action)` shows them in
+ * Redux DevTools. Payloads carry shape of the state instead of the state itself.
+ */
+export const storageTraceActions = {
+    recordRead,
+    recordWritten,
+    recordCleared,
+} as const;
+
+export type StorageTraceAction = ReturnType<
+    (typeof storageTraceActions)[keyof typeof storageTraceActions]
+>;
+
+export type Tracer = ReturnType<typeof createTracer>;
+
+export function createTracer(
+    config: Pick<Config<never, never>, "key" | "version" | "trace">,
+) {
+    const { key, trace } = config;
+    return {
+        read(
+            owner: OwnerKey,
+            storageKey: StorageKey,
+            storedString: SerializedData,
+            { data, version }: PersistedRecord,
+        ) {
+            trace?.(
+                recordRead({
+                    key,
+                    owner,
+                    storageKey,
+                    bytes: byteLength(storedString),
+                    version,
+                    shape: describeShape(data),
+                }),
+            );
+        },
+        written(
+            owner: OwnerKey,
+            storageKey: StorageKey,
+            storedString: SerializedData,
+            state: unknown,
+        ) {
+            trace?.(
+                recordWritten({
+                    key,
+                    owner,
+                    storageKey,
+                    bytes: byteLength(storedString),
+                    version: config.version,
+                    shape: describeShape(state),
+                }),
+            );
+        },
+        cleared(owner: OwnerKey, storageKey: StorageKey) {
+            trace?.(recordCleared({ key, owner, storageKey }));
+        },
+    };
+}
+
+const byteLength = (storedString: SerializedData) =>
+    new TextEncoder().encode(storedString).length;
@@ -0,0 +1,130 @@
+import { OwnerKey } from "./DiskSpace";
+import { CorruptedRecordError, PersistedRecord } from "./RecordFormat";
+import { SerializedData, StorageKey } from "./WebStorage";
+
+/**
+ * Record written outside of this library (or by its older key layout), imported by hydration
+ * when owner has no record yet.
+ */
+export interface LegacySource {
+    readonly key: StorageKey | ((owner: OwnerKey) => StorageKey);
+
+    /**
+     * Version of the migration chain imported data belongs to, it is migrated and validated from there
+     */
+    readonly version: number;
+
+    /**
+     * Extracts state from the stored string, nullish result means there is nothing to import
+     */
+    readonly read: (stored: SerializedData) => unknown;
+
+    /**
+     * What should stay under the key once state is imported, key is removed when it returns `undefined`.
+     * Useful when the key holds state of more than one slice.
+     */
+    readonly rest?: (stored: SerializedData) => SerializedData | undefined;
+}
+
+interface RawSourceOptions {
+    readonly key: LegacySource["key"];
+    readonly version: number;
+    readonly parse?: (stored: SerializedData) => unknown;
+}
+
+/**
+ * State stored as is, `JSON.parse` is used unless `parse` is given
+ */
+const raw = ({
+    key,
+    version,
+    parse = JSON.parse,
+}: RawSourceOptions): LegacySource => ({ key, version, read: parse });
+
+interface ReduxPersistSourceOptions {
+    /** `key` of redux-persist config, `persist:` prefix is added */
+    readonly key: string;
+    readonly version: number;
+    /** imports single slice of persisted reducer, whole state is imported otherwise */
+    readonly slice?: string;
+    readonly keyPrefix?: string;
+}
+
+/**
+ * redux-persist stores every slice as a JSON string inside of a JSON object, along with its `_persist` metadata
+ */
+const reduxPersist = ({
+    key,
+    version,
+    slice,
+    keyPrefix = "persist:",
+}: ReduxPersistSourceOptions): LegacySource => ({
+    key: keyPrefix + key,
+    version,
+    read(stored) {
+        const slices = parseSlices(stored);
+        if (slice !== undefined) {
+            return slice in slices ? JSON.parse(slices[slice]) : undefined;
+        }
+        return Object.fromEntries(
+            Object.entries(slices).map(([name, value]) => [
+                name,
+                JSON.parse(value),
+            ]),
+        );
+    },
+    rest(stored) {
+        if (slice === undefined) return undefined;
+
+        const { [slice]: _imported, ...rest } = JSON.parse(stored);
+        return Object.keys(rest).some((name) => name !== PERSIST_META)
+            ? JSON.stringify(rest)
+            : undefined;
+    },
+});
+
+const PERSIST_META = "_persist";
+
+function parseSlices(stored: SerializedData): Record<string, string> {
+    const { [PERSIST_META]: _meta, ...slices } = JSON.parse(stored);
+    return slices;
+}
+
+export const LegacySource = {
+    raw,
+    reduxPersist,
+} as const;
+
+/**
+ * State found in a legacy source, along with what is needed to remove it afterwards
+ */
+export interface LegacyRecord extends PersistedRecord {
+    readonly source: LegacySource;
+    readonly legacyKey: StorageKey;
+    readonly storedString: SerializedData;
+}
+
+export function getLegacyKey(source: LegacySource, owner: OwnerKey) {
+    return typeof source.key === "function" ? source.key(owner) : source.key;
+}
+
+export function readLegacyRecord(
+    source: LegacySource,
+    legacyKey: StorageKey,
+    storedString: SerializedData | null,
+): LegacyRecord | undefined {
+    if (!storedString) return undefined;
+
+    let data: unknown;
+    try {
+        data = source.read(storedString);
+    } catch (error) {
+        throw new CorruptedRecordError(
+            `Legacy record ${legacyKey} cannot be read`,
+            { cause: error },
+        );
+    }
+    if (data == null) return undefined;
+
+    return { data, version: source.version, source, legacyKey, storedString };
+}
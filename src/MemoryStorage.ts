@@ -0,0 +1,57 @@
+import {
+    AsyncWebStorage,
+    SerializedData,
+    StorageKey,
+    WebStorage,
+} from "./WebStorage";
+
+export type StorageSnapshot = Record<StorageKey, SerializedData>;
+
+export interface MemoryStorage extends WebStorage {
+    readonly keys: () => IterableIterator<StorageKey>;
+    readonly key: (index: number) => StorageKey | null;
+    readonly length: number;
+    readonly clear: () => void;
+    /** copy of everything stored, handy for assertions and snapshots */
+    readonly dump: () => StorageSnapshot;
+}
+
+/**
+ * Storage that lives as long as the page, also meant for tests
+ */
+export function createMemoryStorage(
+    initial: StorageSnapshot = {},
+): MemoryStorage {
+    const items = new Map<StorageKey, SerializedData>(Object.entries(initial));
+    return {
+        getItem: (key) => items.get(key) ?? null,
+        setItem: (key, value) => void items.set(key, String(value)),
+        removeItem: (key) => void items.delete(key),
+        keys: () => items.keys(),
+        key: (index) => Array.from(items.keys())[index] ?? null,
+        get length() {
+            return items.size;
+        },
+        clear: () => items.clear(),
+        dump: () => Object.fromEntries(items),
+    };
+}
+
+export interface AsyncMemoryStorage extends AsyncWebStorage {
+    readonly clear: () => Promise<void>;
+    readonly dump: () => StorageSnapshot;
+}
+
+export function createAsyncMemoryStorage(
+    initial: StorageSnapshot = {},
+): AsyncMemoryStorage {
+    const storage = createMemoryStorage(initial);
+    return {
+        getItem: async (key) => storage.getItem(key),
+        setItem: async (key, value) => storage.setItem(key, value),
+        removeItem: async (key) => storage.removeItem(key),
+        getAllKeys: async () => Array.from(storage.keys()),
+        clear: async () => storage.clear(),
+        dump: storage.dump,
+    };
+}
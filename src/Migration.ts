@@ -1,9 +1,24 @@
 import { Real } from "./Config";
+import {
+    SchemaValidationError,
+    ValidationIssue,
+    Validator,
+    toValidateFn,
+} from "./Validation";
 
 export type VersioningConfig<TState extends Real> = Pick<
     BuildResult<TState>,
     "migrate" | "version"
->;
+> &
+    Partial<Pick<BuildResult<TState>, "downgrade">>;
+
+/**
+ * State of the current version converted to the shape of an older one
+ */
+export interface DowngradedState {
+    readonly version: number;
+    readonly data: Real;
+}
 
 export interface VersioningConfigBuilder<TLatest extends Real> {
     (builder: CurrentVersionBuildStep<TLatest>): VersioningConfig<TLatest>;
@@ -22,11 +37,15 @@ export const buildMigration = <TLatest extends Real>(
 export const ResetSentinel = Symbol();
 
 type MigrationFn = (persisted: Real) => Real | typeof ResetSentinel;
-class Migrations<TLatest> {
+type DowngradeFn = (newer: Real) => Real;
+class Migrations<TLatest extends Real> {
     private readonly migrations = new Array<MigrationFn>();
+    // `downgrades[idx]` turns data of version `idx + 2` into data of version `idx + 1`
+    private readonly downgrades = new Array<DowngradeFn | undefined>();
 
-    add(migrationFn: MigrationFn) {
+    add(migrationFn: MigrationFn, downgradeFn?: DowngradeFn) {
         this.migrations.unshift(migrationFn);
+        this.downgrades.unshift(downgradeFn);
     }
 
     run(state: Real, version: number): TLatest | typeof ResetSentinel {
@@ -47,6 +66,28 @@ class Migrations<TLatest> {
         }
     }
 
+    /**
+     * Walks the chain backwards for as long as older versions define `downgrade`
+     */
+    downgrade(state: TLatest): DowngradedState[] {
+        const downgraded = new Array<DowngradedState>();
+        let data: Real = state;
+        let version = this.currentVersion - 1;
+        try {
+            for (; version >= 1 && this.downgrades[version - 1]; version--) {
+                data = this.downgrades[version - 1]!(data);
+                downgraded.push({ version, data });
+            }
+        } catch (error) {
+            throw new MigrationError(error, {
+                persistedData: data,
+                fromVersion: version + 1,
+                toVersion: version,
+            });
+        }
+        return downgraded;
+    }
+
     get currentVersion() {
         return this.migrations.length;
     }
@@ -59,6 +100,10 @@ abstract class BuildResult<TLatest extends Real> {
         return this.migrations.run.bind(this.migrations);
     }
 
+    get downgrade() {
+        return this.migrations.downgrade.bind(this.migrations);
+    }
+
     get version() {
         return this.migrations.currentVersion;
     }
@@ -68,12 +113,22 @@ class OlderVersionBuildStep<
     TLatestShape extends Real,
     TNewerShape extends Real,
 > extends BuildResult<TLatestShape> {
+    /**
+     * @param validator throwing function, io-ts codec or Standard Schema validator of this version
+     * @param downgrade turns data of the newer version back into this one, so that records written by
+     * newer version can still be read after a rollback
+     */
     olderVersion<TOwnShape extends Real>(
         this: OlderVersionBuildStep<TLatestShape, TNewerShape>,
-        validate: (state: unknown) => TOwnShape,
+        validator: Validator<TOwnShape>,
         migrate: (self: TOwnShape) => TNewerShape,
+        downgrade?: (newer: TNewerShape) => TOwnShape,
     ) {
-        this.migrations.add((state) => migrate(validate(state)));
+        const validate = toValidateFn(validator);
+        this.migrations.add(
+            (state) => migrate(validate(state)),
+            downgrade as DowngradeFn | undefined,
+        );
         return new OlderVersionBuildStep<TLatestShape, TOwnShape>(
             this.migrations,
         );
@@ -85,9 +140,9 @@ class CurrentVersionBuildStep<
 > extends BuildResult<TLatest> {
     currentVersion(
         this: CurrentVersionBuildStep<TLatest>,
-        validate: (state: unknown) => TLatest,
+        validator: Validator<TLatest>,
     ) {
-        this.migrations.add(validate);
+        this.migrations.add(toValidateFn(validator));
         return new OlderVersionBuildStep<TLatest, TLatest>(this.migrations);
     }
 }
@@ -95,6 +150,8 @@ class CurrentVersionBuildStep<
 export class MigrationError extends Error {
     readonly name = "MigrationError";
     readonly persistedShape: ShapeDescription | TypeDescription;
+    /** present when data was rejected by a schema given to the builder */
+    readonly issues?: readonly ValidationIssue[];
 
     constructor(
         cause: unknown,
@@ -110,6 +167,9 @@ export class MigrationError extends Error {
         const message = `Migration from ${meta.fromVersion} to ${meta.toVersion} failed. Persisted ${serializedShape.slice(0, 60)}`;
         super(message, { cause });
         this.persistedShape = shape;
+        if (cause instanceof SchemaValidationError) {
+            this.issues = cause.issues;
+        }
     }
 }
 
@@ -122,10 +182,14 @@ type JsType =
     | "undefined"
     | "object"
     | "function";
-type TypeDescription = JsType | `Array<${string}>`;
-type ShapeDescription = { [key: string]: TypeDescription | ShapeDescription };
+export type TypeDescription = JsType | `Array<${string}>`;
+export type ShapeDescription = {
+    [key: string]: TypeDescription | ShapeDescription;
+};
 
-const describeShape = (thing: unknown): TypeDescription | ShapeDescription => {
+export const describeShape = (
+    thing: unknown,
+): TypeDescription | ShapeDescription => {
     if (!thing || typeof thing !== "object") {
         return typeof thing;
     }
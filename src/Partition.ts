@@ -0,0 +1,35 @@
+import { Real } from "./Config";
+
+export type PartitionKey = string;
+
+/**
+ * Splits selected state into partitions that are stored under their own keys, so that a write
+ * only serializes partitions that changed.
+ */
+export interface Partition<TState> {
+    readonly split: (state: TState) => Record<PartitionKey, Real>;
+    /** receives every stored partition, in the order `split` returned them */
+    readonly join: (partitions: Record<PartitionKey, Real>) => TState;
+    /** tells whether partition is the same as the one written before, `Object.is` by default */
+    readonly compare?: (a: Real, b: Real) => boolean;
+}
+
+/**
+ * Every top-level field is a partition, nullish fields are not stored. For a normalized entity map
+ * (e.g. `entities` of an entity adapter) it gives a partition per entity id.
+ */
+const byField = <
+    TState extends Record<PartitionKey, unknown>,
+>(): Partition<TState> => ({
+    split: (state) =>
+        Object.fromEntries(
+            Object.entries(state).filter(
+                (entry): entry is [PartitionKey, Real] => entry[1] != null,
+            ),
+        ),
+    join: (partitions) => partitions as TState,
+});
+
+export const Partition = {
+    byField,
+} as const;
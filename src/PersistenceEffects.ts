@@ -1,8 +1,25 @@
+import { miniSerializeError } from "@reduxjs/toolkit";
 import { Action, Dispatch } from "redux";
-import { Config, ConfigCreationOptions, Real } from "./Config";
-import { DiskSpace, OwnerKey, createDiskSpace } from "./DiskSpace";
+import { ChangeDetector, createChangeDetector } from "./ChangeDetection";
+import { Config, ConfigCreationOptions, Real, SyncUpdate } from "./Config";
+import {
+    DiskSpace,
+    OwnerKey,
+    PersistedRecord,
+    createDiskSpace,
+} from "./DiskSpace";
+import {
+    BackupRecord,
+    ImportMode,
+    ImportOutcome,
+    restoreBackupRecord,
+    toBackupRecord,
+} from "./Backup";
+import { HydrationSkipReason, createHydrationActions } from "./HydrationStatus";
+import { RecordInspection, inspectRecord } from "./Inspection";
 import { ResetSentinel, buildMigration } from "./Migration";
-import { StorageKey, WebStorage, local, session } from "./WebStorage";
+import { StorageKey, WebStorage, local, memory, session } from "./WebStorage";
+import { WriteQueue, WriteStrategy, createWriteQueue } from "./WriteStrategy";
 
 export function createPersistenceEffects<
     TState extends Real,
@@ -17,45 +34,128 @@ export function createPersistenceEffectsImpl<
     TParent extends Real,
 >(config: Config<TState, TParent>) {
     const disk = createDiskSpace(config);
+    const changes = createChangeDetector<TState>(config.compare);
+    const conflicts = createConflictResolution(config, disk, changes);
+    const writes = createWriteQueue<TState, void>(
+        config.writeStrategy,
+        (owner, state) => {
+            try {
+                if (!state) return disk.clear(owner);
+                // state that failed to be written is written again by the next update
+                if (!conflicts.write(owner, state)) changes.forget(owner);
+            } catch (error) {
+                // e.g. thrown by `resolveConflict`, flush of other owners goes on
+                changes.forget(owner);
+                config.onError(error);
+            }
+        },
+    );
+    const hydrating = new Set<OwnerKey>();
+    const hydrate = createHydrateEffect(config, disk, changes, hydrating);
     return {
-        hydrate: createHydrateEffect(config, disk),
-        update: createUpdateEffect(config, disk),
-        purge: createPurgeEffect(disk),
+        key: config.key,
+        ...createHydrationActions(config.key),
+        hydrate,
+        update: createUpdateEffect(
+            config,
+            writes,
+            changes,
+            hydrating,
+            hydrate,
+            conflicts,
+        ),
+        flush: createFlushEffect(writes),
+        purge: createPurgeEffect(disk, writes),
+        watch: createWatchEffect(config, disk, changes),
+        transferOwner: createTransferOwnerEffect(config, disk, writes, changes),
+        sweepExpired: createSweepExpiredEffect(disk),
+        listOwners: disk.listOwners,
+        inspect: createInspect(config, disk),
+        ...createBackup(config, disk, writes),
     };
 }
 
 export function resolveConfig<TState extends Real, TParent extends Real>(
     key: StorageKey,
-    storage: WebStorage | "local" | "session",
+    storage: WebStorage | "local" | "session" | "memory",
     config: ConfigCreationOptions<TState, TParent>,
 ): Config<TState, TParent> {
-    const { actualize, hydrate, select, compare, json } = config;
+    return {
+        ...resolveOptions(key, config),
+        storage:
+            typeof storage !== "object"
+                ? { local, session, memory }[storage]
+                : storage,
+        codecs: config.codecs ?? [],
+        retiredCodecs: config.retiredCodecs ?? [],
+    };
+}
 
-    const { version, migrate } =
+export function resolveOptions<TState extends Real, TParent extends Real>(
+    key: StorageKey,
+    config: Omit<
+        ConfigCreationOptions<TState, TParent>,
+        "codecs" | "retiredCodecs"
+    >,
+): Omit<Config<TState, TParent>, "storage" | "codecs" | "retiredCodecs"> {
+    const { actualize, hydrate, select, rehydrateOnOwnerChange } = config;
+    const { compare, json, writeStrategy, resolveConflict } = config;
+    const { namespace, legacySources, partition } = config;
+    const { appBuild, checksum, ttl, now } = config;
+    const { quotaPolicy, maxOwners, onError, errorPolicy, trace } = config;
+
+    const { version, migrate, downgrade } =
         typeof actualize === "object" ? actualize : buildMigration(actualize);
 
     return {
         key,
-        storage:
-            typeof storage !== "object" ? { local, session }[storage] : storage,
 
         version,
         migrate,
+        downgrade: downgrade ?? (() => []),
 
         hydrate,
         select,
+        rehydrateOnOwnerChange: rehydrateOnOwnerChange ?? false,
 
         compare: compare ?? Object.is,
         json: json ?? JSON,
+        namespace: namespace ?? DEFAULT_NAMESPACE,
+        legacySources: legacySources ?? [],
+        partition,
+        appBuild,
+        checksum: checksum ?? false,
+
+        ttl,
+        now: now ?? Date.now,
+
+        writeStrategy: writeStrategy ?? WriteStrategy.immediate,
+        resolveConflict,
+
+        quotaPolicy: quotaPolicy ?? "report",
+        maxOwners: maxOwners ?? Infinity,
+        onError: onError ?? defaultOnError,
+        errorPolicy: errorPolicy ?? "throw",
+        trace,
     };
 }
 
-interface MinimalRequiredStoreAPI<TParent> {
+const DEFAULT_NAMESPACE = "aRzf3d7co0u-DISK";
+
+export const defaultOnError = (error: unknown) => {
+    if (typeof reportError === "function") {
+        reportError(error);
+    } else {
+        console.error(error);
+    }
+};
+
+export interface MinimalRequiredStoreAPI<TParent> {
     getState: () => TParent;
     dispatch: Dispatch;
 }
-function createEffect<TParent>(
-    effectFn: (api: MinimalRequiredStoreAPI<TParent>) => void,
+export function createEffect<TParent, TResult = void>(
+    effectFn: (api: MinimalRequiredStoreAPI<TParent>) => TResult,
 ) {
     const effect = effectFn.bind(null); // cloning function
 
@@ -74,104 +174,473 @@ function createEffect<TParent>(
 function createHydrateEffect<TState extends Real, TParent extends Real>(
     config: Config<TState, TParent>,
     disk: DiskSpace<TState>,
+    changes: ChangeDetector<TState>,
+    hydrating: Set<OwnerKey>,
 ) {
+    const actions = createHydrationActions(config.key);
+
     const theHydrateEffect = createEffect<TParent>((api) => {
         const { owner } = config.select(api.getState());
-        if (owner == null) return;
+        if (owner == null) {
+            api.dispatch(actions.hydrationStarted({}));
+            api.dispatch(actions.hydrationSkipped({ reason: "no-owner" }));
+            return;
+        }
+
+        // lifecycle actions trigger update effect as well, it must not write
+        // initial state over the record that is being read
+        hydrating.add(owner);
+        try {
+            hydrateOwner(api, owner);
+        } finally {
+            hydrating.delete(owner);
+        }
+    });
+
+    const hydrateOwner = (
+        api: MinimalRequiredStoreAPI<TParent>,
+        owner: OwnerKey,
+    ) => {
+        api.dispatch(actions.hydrationStarted({ owner }));
+        let restored: Restored<TState>;
+        try {
+            restored = restore(owner);
+        } catch (error) {
+            api.dispatch(
+                actions.hydrationFailed({
+                    owner,
+                    error: miniSerializeError(error),
+                }),
+            );
+            recoverFromHydrationError(config, disk, owner, error);
+            return;
+        }
 
+        if ("reason" in restored) {
+            api.dispatch(
+                actions.hydrationSkipped({ owner, reason: restored.reason }),
+            );
+            return;
+        }
+
+        changes.remember(owner, restored.state);
+        dispatchHydration(config, api, restored.state);
+        api.dispatch(
+            actions.hydrated({
+                owner,
+                fromVersion: restored.fromVersion,
+                migrated: restored.migrated,
+            }),
+        );
+    };
+
+    const restore = (owner: OwnerKey): Restored<TState> => {
         const persistedData = disk.get(owner);
-        if (!persistedData) return;
+        if (!persistedData) return importLegacy(owner);
 
-        const validData = ensureVersionRelevance(persistedData, owner);
-        if (!validData) return;
+        return ensureVersionRelevance(persistedData, owner);
+    };
 
-        const actionOrTask = config.hydrate(validData);
-        if (typeof actionOrTask === "function") {
-            actionOrTask(api.dispatch);
-        } else {
-            api.dispatch(actionOrTask);
+    const importLegacy = (owner: OwnerKey): Restored<TState> => {
+        const legacy = disk.getLegacy(owner);
+        if (!legacy) return { reason: "not-found" };
+
+        // migrated even from the current version, so that data written by something else is validated
+        const state = config.migrate(legacy.data, legacy.version);
+        if (state === ResetSentinel) return { reason: "version-reset" };
+
+        if (disk.set(owner, state)) {
+            disk.removeLegacy(legacy);
         }
-    });
+        const fromVersion = legacy.version;
+        return { state, fromVersion, migrated: fromVersion !== config.version };
+    };
 
     const ensureVersionRelevance = (
-        persisted: { version: number; data: Real },
+        persisted: PersistedRecord,
         owner: OwnerKey,
-    ) => {
-        if (persisted.version === config.version) {
-            return persisted.data as TState;
+    ): Restored<TState> => {
+        const fromVersion = persisted.version;
+        if (fromVersion === config.version) {
+            return {
+                state: persisted.data as TState,
+                fromVersion,
+                migrated: false,
+            };
         }
 
-        const migratedData = config.migrate(persisted.data, persisted.version);
+        const migratedData = config.migrate(persisted.data, fromVersion);
 
         if (migratedData === ResetSentinel) {
             disk.clear(owner);
-            return undefined;
+            return { reason: "version-reset" };
         } else {
             disk.set(owner, migratedData);
-            return migratedData;
+            return { state: migratedData, fromVersion, migrated: true };
         }
     };
 
     return theHydrateEffect;
 }
 
+/**
+ * Outcome of reading a record, either state to hydrate or the reason why there is none
+ */
+export type Restored<TState> =
+    | { state: TState; fromVersion: number; migrated: boolean }
+    | { reason: Exclude<HydrationSkipReason, "no-owner"> };
+
+/**
+ * Applies `errorPolicy` to a record that could not be read, validated or migrated
+ */
+export function recoverFromHydrationError<TResult>(
+    config: Pick<Config<Real, never>, "errorPolicy" | "onError">,
+    disk: {
+        clear: (owner: OwnerKey) => TResult;
+        quarantine: (owner: OwnerKey) => TResult;
+    },
+    owner: OwnerKey,
+    error: unknown,
+): TResult | undefined {
+    if (config.errorPolicy === "throw") {
+        throw error;
+    }
+    config.onError(error);
+    switch (config.errorPolicy) {
+        case "reset":
+            return disk.clear(owner);
+        case "quarantine":
+            return disk.quarantine(owner);
+        case "keep-and-skip":
+            return undefined;
+    }
+}
+
+export function dispatchHydration<TState extends Real, TParent>(
+    config: Pick<Config<TState, TParent>, "hydrate">,
+    api: MinimalRequiredStoreAPI<TParent>,
+    state: TState,
+) {
+    const actionOrTask = config.hydrate(state);
+    if (typeof actionOrTask === "function") {
+        actionOrTask(api.dispatch);
+    } else {
+        api.dispatch(actionOrTask);
+    }
+}
+
 // Update
 
 function createUpdateEffect<TState extends Real, TParent extends Real>(
     config: Config<TState, TParent>,
-    disk: DiskSpace<TState>,
+    writes: WriteQueue<TState, void>,
+    changes: ChangeDetector<TState>,
+    hydrating: ReadonlySet<OwnerKey>,
+    hydrate: (api: MinimalRequiredStoreAPI<TParent>) => void,
+    conflicts: ConflictResolution<TParent>,
 ) {
+    const owners = createOwnerTracker();
+
     const theUpdateEffect = createEffect<TParent>((api) => {
-        const update = config.select(api.getState());
+        conflicts.connect(api);
+        let update = config.select(api.getState());
+        if (owners.hasSwitched(update) && config.rehydrateOnOwnerChange) {
+            hydrate(api);
+            update = config.select(api.getState());
+        }
         if (update.skipSync) {
             return;
         }
         const { owner, state } = update;
+        if (hydrating.has(owner)) {
+            return;
+        }
         if (!state) {
-            disk.clear(owner);
+            changes.forget(owner);
+            writes.enqueue(owner, undefined);
             return;
         }
-        if (hasChanged(state)) {
-            disk.set(owner, state);
+        if (changes.hasChanged(owner, state)) {
+            writes.enqueue(owner, state);
         }
     });
 
-    const hasChanged = createChangeDetector<TState>(config.compare);
-
     return theUpdateEffect;
 }
 
-const createChangeDetector = <T extends Real>(
-    isEqual: (a: T, b: T) => boolean,
-) => {
-    let current = createWeakRef<T | undefined>(undefined);
-    const isNew = (value: T): boolean => {
-        const previous = current.deref();
-        if (!previous || !isEqual(previous, value)) {
-            current = createWeakRef(value);
-            return true;
-        }
-        return false;
+/**
+ * Tells when `select` starts returning another owner, syncing being skipped without an owner counts as one.
+ * The very first owner is not a switch, it is up to the app to hydrate it.
+ */
+export const createOwnerTracker = () => {
+    let last: OwnerKey | null | undefined;
+    const hasSwitched = (update: SyncUpdate<Real>): boolean => {
+        const owner = update.skipSync ? (update.owner ?? null) : update.owner;
+        const switched = last !== undefined && last !== owner;
+        last = owner;
+        return switched && !update.skipSync;
     };
-    return isNew;
+    return { hasSwitched };
 };
 
-const createWeakRef = <T>(data: T): { readonly deref: () => T | undefined } => {
-    if (data && typeof data === "object") {
-        return new WeakRef(data);
-    } else {
-        return { deref: () => data };
-    }
-};
+// Conflicts
+
+/**
+ * Update effect connects the store it runs against, state resolved by `resolveConflict` is hydrated into it
+ */
+export interface ConflictResolution<TParent> {
+    readonly connect: (api: MinimalRequiredStoreAPI<TParent>) => void;
+}
+
+function createConflictResolution<TState extends Real, TParent extends Real>(
+    config: Config<TState, TParent>,
+    disk: DiskSpace<TState>,
+    changes: ChangeDetector<TState>,
+) {
+    let store: MinimalRequiredStoreAPI<TParent> | undefined;
+
+    /**
+     * Writes state of the owner, resolving conflict with the record first if it was written elsewhere
+     * @returns whether the record was written
+     */
+    const write = (owner: OwnerKey, local: TState): boolean => {
+        const resolved = resolve(owner, local);
+        if (!disk.set(owner, resolved)) return false;
+        if (resolved !== local && store) {
+            hydrateResolved(config, store, changes, owner, resolved);
+        }
+        return true;
+    };
+
+    const resolve = (owner: OwnerKey, local: TState): TState => {
+        if (!config.resolveConflict) return local;
+
+        let stored: TState | typeof ResetSentinel | undefined;
+        try {
+            const persisted = disk.getWrittenElsewhere(owner);
+            stored = persisted && actualizeRecord(config, persisted);
+        } catch (error) {
+            // record that cannot be read is overwritten, as it would be without a conflict
+            config.onError(error);
+            return local;
+        }
+        if (stored === undefined || stored === ResetSentinel) return local;
+        return config.resolveConflict(local, stored);
+    };
+
+    const connect = (api: MinimalRequiredStoreAPI<TParent>) => {
+        store = api;
+    };
+
+    return { write, connect };
+}
+
+export function hydrateResolved<TState extends Real, TParent>(
+    config: Pick<Config<TState, TParent>, "select" | "hydrate">,
+    api: MinimalRequiredStoreAPI<TParent>,
+    changes: ChangeDetector<TState>,
+    owner: OwnerKey,
+    resolved: TState,
+) {
+    // owner might have switched while write was deferred
+    if (config.select(api.getState()).owner !== owner) return;
+
+    // update effect would otherwise see hydrated state as a change and write it again
+    changes.remember(owner, resolved);
+    dispatchHydration(config, api, resolved);
+}
+
+// Watch
+
+function createWatchEffect<TState extends Real, TParent extends Real>(
+    config: Config<TState, TParent>,
+    disk: DiskSpace<TState>,
+    changes: ChangeDetector<TState>,
+) {
+    const theWatchEffect = createEffect<TParent, () => void>((api) =>
+        disk.subscribe((changedOwner, persisted) => {
+            const { owner } = config.select(api.getState());
+            if (owner !== changedOwner) return;
+
+            // not writing migrated data back, tab that wrote older version is still running
+            let data: TState | typeof ResetSentinel;
+            try {
+                data = actualizeRecord(config, persisted);
+            } catch (error) {
+                // record is left for hydration of this tab and error policy
+                config.onError(error);
+                return;
+            }
+            if (data === ResetSentinel) return;
+
+            // update effect would otherwise see hydrated state as a change and write it back
+            changes.remember(owner, data);
+            dispatchHydration(config, api, data);
+        }),
+    );
+
+    return theWatchEffect;
+}
+
+// Transfer
+
+export interface TransferOptions<TState> {
+    /**
+     * Combines state of the source owner with the state target owner already has
+     */
+    readonly merge: (source: TState, target: TState) => TState;
+}
+
+function createTransferOwnerEffect<TState extends Real, TParent extends Real>(
+    config: Config<TState, TParent>,
+    disk: DiskSpace<TState>,
+    writes: WriteQueue<TState, void>,
+    changes: ChangeDetector<TState>,
+) {
+    /**
+     * Moves state of `from` owner to `to` owner, e.g. when guest logs in. Nothing happens if `from` has no state
+     * or is the same owner as `to`.
+     */
+    const transferOwner = (
+        from: OwnerKey,
+        to: OwnerKey,
+        { merge }: TransferOptions<TState>,
+    ) => {
+        const theTransferOwnerEffect = createEffect<TParent>((api) => {
+            // source would be cleared right after it was written
+            if (from === to) return;
+            // pending writes of both owners must land before they are read
+            writes.flush();
+
+            const source = read(from);
+            if (source === undefined) return;
+            const target = read(to);
+            const state = target === undefined ? source : merge(source, target);
+
+            // source is kept when target could not be written
+            if (!disk.set(to, state)) return;
+            disk.clear(from);
+            changes.forget(from);
+
+            const update = config.select(api.getState());
+            if (!update.skipSync && update.owner === to) {
+                changes.remember(to, state);
+                dispatchHydration(config, api, state);
+            }
+        });
+
+        return theTransferOwnerEffect;
+    };
+
+    const read = (owner: OwnerKey) => {
+        const persisted = disk.get(owner);
+        if (!persisted) return undefined;
+
+        const data = actualizeRecord(config, persisted);
+        return data === ResetSentinel ? undefined : data;
+    };
+
+    return transferOwner;
+}
+
+/**
+ * Migrates persisted data to the current version, unless it is already there
+ */
+export function actualizeRecord<TState extends Real>(
+    config: Pick<Config<TState, never>, "version" | "migrate">,
+    persisted: PersistedRecord,
+): TState | typeof ResetSentinel {
+    return persisted.version === config.version
+        ? (persisted.data as TState)
+        : config.migrate(persisted.data, persisted.version);
+}
+
+// Flush
+
+function createFlushEffect<TState extends Real, TParent>(
+    writes: WriteQueue<TState, void>,
+) {
+    const theFlushEffect = createEffect<TParent>(() => {
+        writes.flush();
+    });
+
+    return theFlushEffect;
+}
 
 // Purge
 
 function createPurgeEffect<TState extends Real, TParent>(
     disk: DiskSpace<TState>,
+    writes: WriteQueue<TState, void>,
 ) {
     const thePurgeEffect = createEffect<TParent>(() => {
+        writes.discard();
         disk.clearAll();
     });
 
     return thePurgeEffect;
 }
+
+// Inspect
+
+/**
+ * Describes records of every owner without reading state into the store or changing storage
+ */
+function createInspect<TState extends Real, TParent extends Real>(
+    config: Config<TState, TParent>,
+    disk: DiskSpace<TState>,
+) {
+    return (): RecordInspection[] =>
+        disk.listOwners().flatMap((owner) => {
+            const peeked = disk.peek(owner);
+            return peeked ? [inspectRecord(config, owner, peeked)] : [];
+        });
+}
+
+// Backup
+
+function createBackup<TState extends Real, TParent extends Real>(
+    config: Config<TState, TParent>,
+    disk: DiskSpace<TState>,
+    writes: WriteQueue<TState, void>,
+) {
+    const exportRecords = (): BackupRecord[] =>
+        disk.listOwners().flatMap((owner) => {
+            const peeked = disk.peek(owner);
+            return peeked ? toBackupRecord(config, owner, peeked) : [];
+        });
+
+    /**
+     * State of the store is not changed, hydrate afterwards to use imported records
+     */
+    const importRecord = (
+        record: BackupRecord,
+        mode: ImportMode,
+    ): ImportOutcome => {
+        // pending write would land over the imported record
+        writes.flush();
+        if (mode === "merge" && disk.peek(record.owner)) {
+            return { status: "skipped" };
+        }
+        const restored = restoreBackupRecord(config, record);
+        if (!("state" in restored)) return restored;
+
+        return disk.set(record.owner, restored.state)
+            ? { status: "imported" }
+            : { status: "rejected", reason: "write-failed" };
+    };
+
+    return { exportRecords, importRecord };
+}
+
+// Sweep
+
+function createSweepExpiredEffect<TState extends Real, TParent>(
+    disk: DiskSpace<TState>,
+) {
+    const theSweepExpiredEffect = createEffect<TParent>(() => {
+        disk.sweepExpired();
+    });
+
+    return theSweepExpiredEffect;
+}
@@ -0,0 +1,243 @@
+import { Middleware } from "redux";
+import {
+    BackupDocument,
+    BackupRecord,
+    ImportMode,
+    ImportOutcome,
+    ImportReport,
+    assertBackupDocument,
+    createBackupDocument,
+} from "./Backup";
+import { HydrationStatus, combineHydrationStatus } from "./HydrationStatus";
+import {
+    MinimalRequiredStoreAPI,
+    createEffect,
+    defaultOnError,
+} from "./PersistenceEffects";
+import { StorageKey } from "./WebStorage";
+
+type Effect<TParent> = (
+    api: MinimalRequiredStoreAPI<TParent>,
+) => void | Promise<void>;
+
+/**
+ * Part of `createPersistenceEffects` or `createAsyncPersistenceEffects` result that middleware runs
+ */
+export interface PersistenceEffectSet<TParent> {
+    readonly key: StorageKey;
+    readonly hydrate: Effect<TParent>;
+    readonly update: Effect<TParent>;
+    readonly purge: Effect<TParent>;
+    readonly exportRecords: () => BackupRecord[] | Promise<BackupRecord[]>;
+    readonly importRecord: (
+        record: BackupRecord,
+        mode: ImportMode,
+    ) => ImportOutcome | Promise<ImportOutcome>;
+}
+
+type ActionMatcher =
+    | { readonly match: (action: unknown) => boolean }
+    | ((action: unknown) => boolean);
+
+export interface PersistenceMiddlewareOptions {
+    /**
+     * Action (creator with `match`, or a predicate) that hydrates every key before updates run,
+     * without it `hydrateAll` has to be dispatched. Updates of a key start once it is hydrated,
+     * or once its hydration failed (the error goes to `onError`), see `errorPolicy` of the key.
+     */
+    readonly hydrateOn?: ActionMatcher;
+
+    /**
+     * Receives errors of effects run by middleware itself, `hydrateAll` and `purgeAll` reject instead
+     */
+    readonly onError?: (error: unknown) => void;
+}
+
+/** state of a store that has `hydrationStatusReducer` mounted under `hydrationStatus` */
+type HydrationStatusRoot = {
+    readonly hydrationStatus: Record<StorageKey, HydrationStatus>;
+};
+
+/**
+ * Runs every update effect after reducers and hydrates every key on `hydrateOn` action
+ */
+export function createPersistenceMiddleware<TParent>(
+    effectSets: readonly PersistenceEffectSet<TParent>[],
+    { hydrateOn, onError = defaultOnError }: PersistenceMiddlewareOptions = {},
+) {
+    const keys = effectSets.map(({ key }) => key);
+    const duplicate = keys.find((key, index) => keys.indexOf(key) !== index);
+    if (duplicate !== undefined) {
+        throw new TypeError(
+            `[PERSISTENCE] Key "${duplicate}" is registered more than once`,
+        );
+    }
+
+    /**
+     * Runs effect of every set, a failing one does not stop the rest.
+     * Sync effects are done by the time it returns.
+     */
+    const runAll = (
+        api: MinimalRequiredStoreAPI<TParent>,
+        pick: (effects: PersistenceEffectSet<TParent>) => Effect<TParent>,
+        sets = effectSets,
+    ): Outcome => {
+        const errors: unknown[] = [];
+        const pending: Promise<void>[] = [];
+        for (const effects of sets) {
+            try {
+                const result = pick(effects)(api);
+                if (result instanceof Promise) pending.push(result);
+            } catch (error) {
+                errors.push(error);
+            }
+        }
+        return { errors, pending };
+    };
+
+    // actions dispatched by hydration of one key would otherwise make update effects
+    // of keys that are not hydrated yet write their initial state over the records
+    let hydrations = 0;
+    // until a key is hydrated, its update effect would write initial state over the record.
+    // Failed hydration counts too, the key would not be persisted at all otherwise.
+    const hydrated = new Set<StorageKey>();
+    const hydrateEvery = (api: MinimalRequiredStoreAPI<TParent>) => {
+        hydrations++;
+        const outcome = runAll(api, ({ key, hydrate }) => (api) => {
+            try {
+                const result = hydrate(api);
+                if (result instanceof Promise) {
+                    return result.finally(() => void hydrated.add(key));
+                }
+                hydrated.add(key);
+            } catch (error) {
+                hydrated.add(key);
+                throw error;
+            }
+        });
+        if (!outcome.pending.length) {
+            hydrations--;
+        } else {
+            // changes made while async storage was read are written once it is done
+            Promise.allSettled(outcome.pending).then(() => {
+                hydrations--;
+                updateEvery(api);
+            });
+        }
+        return outcome;
+    };
+
+    const updateEvery = (api: MinimalRequiredStoreAPI<TParent>) => {
+        if (hydrations) return;
+        report(
+            runAll(
+                api,
+                ({ update }) => update,
+                effectSets.filter(({ key }) => hydrated.has(key)),
+            ),
+        );
+    };
+
+    const report = (outcome: Outcome) =>
+        collectErrors(outcome).then((errors) =>
+            errors.forEach((error) => onError(error)),
+        );
+
+    const hydrateAll = createEffect<TParent, Promise<void>>((api) =>
+        throwErrors(hydrateEvery(api)),
+    );
+
+    const purgeAll = createEffect<TParent, Promise<void>>((api) =>
+        throwErrors(runAll(api, ({ purge }) => purge)),
+    );
+
+    const middleware: Middleware<{}, TParent> = (api) => (next) => (action) => {
+        const output = next(action);
+        // hydration goes first, so that a trigger like login does not write initial state of the new owner
+        if (hydrateOn && matches(hydrateOn, action)) {
+            report(hydrateEvery(api));
+        }
+        // effects must be run after reducers to write latest state
+        updateEvery(api);
+        return output;
+    };
+
+    const selectHydrationStatus = (state: HydrationStatusRoot) =>
+        combineHydrationStatus(
+            keys.map(
+                (key): HydrationStatus => state.hydrationStatus[key] ?? "idle",
+            ),
+        );
+
+    /**
+     * Collects records of every owner of every key into a single document
+     */
+    const exportAll = async (): Promise<BackupDocument> => {
+        const records = await Promise.all(
+            effectSets.map((effects) => effects.exportRecords()),
+        );
+        return createBackupDocument(records.flat());
+    };
+
+    /**
+     * Writes records of a document made by `exportAll`, each one is migrated and validated first.
+     * Store is not changed, `hydrateAll` should follow.
+     */
+    const importAll = async (
+        document: unknown,
+        { mode }: { readonly mode: ImportMode },
+    ): Promise<ImportReport> => {
+        assertBackupDocument(document);
+        const report = { imported: [], skipped: [], rejected: [] } as {
+            -readonly [K in keyof ImportReport]: ImportReport[K][number][];
+        };
+        for (const record of document.records) {
+            const { key, owner } = record;
+            const effects = effectSets.find((it) => it.key === key);
+            const outcome: ImportOutcome = effects
+                ? await effects.importRecord(record, mode)
+                : { status: "rejected", reason: "unknown-key" };
+            if (outcome.status === "rejected") {
+                const { status, ...rejection } = outcome;
+                report.rejected.push({ key, owner, ...rejection });
+            } else {
+                report[outcome.status].push({ key, owner });
+            }
+        }
+        return report;
+    };
+
+    return {
+        middleware,
+        hydrateAll,
+        purgeAll,
+        exportAll,
+        importAll,
+        selectHydrationStatus,
+    };
+}
+
+interface Outcome {
+    /** thrown by sync effects */
+    readonly errors: unknown[];
+    readonly pending: Promise<void>[];
+}
+
+async function collectErrors({ errors, pending }: Outcome) {
+    const results = await Promise.allSettled(pending);
+    return [
+        ...errors,
+        ...results.flatMap((result) =>
+            result.status === "rejected" ? [result.reason] : [],
+        ),
+    ];
+}
+
+async function throwErrors(outcome: Outcome) {
+    const errors = await collectErrors(outcome);
+    if (errors.length > 1) throw new AggregateError(errors);
+    if (errors.length) throw errors[0];
+}
+
+const matches = (matcher: ActionMatcher, action: unknown) =>
+    "match" in matcher ? matcher.match(action) : matcher(action);
@@ -0,0 +1,600 @@
+import { AsyncCodec, CodecContext, createCodecPipeline } from "./Codec";
+import { Config, Real } from "./Config";
+import { OwnerKey } from "./DiskSpace";
+import { Partition, PartitionKey } from "./Partition";
+import { SerializedData, StorageKey } from "./WebStorage";
+
+export interface PersistedRecord {
+    readonly data: Real;
+    readonly version: number;
+    /** missing for records written before envelope was introduced */
+    readonly savedAt?: number;
+    readonly appBuild?: string;
+    /** identifies the write that made the record, see `resolveConflict` */
+    readonly revision?: Revision;
+    /** partitions the data was joined from, see `partition` */
+    readonly partitions?: Record<PartitionKey, Real>;
+}
+
+export type OwnersRecord = Record<OwnerKey, number>;
+
+export type Revision = string;
+
+export type RecordFormat<TState extends Real> = ReturnType<
+    typeof createRecordFormat<TState>
+>;
+
+/**
+ * Stored form of a record, `payload` is the serialized state
+ */
+interface RecordEnvelope {
+    readonly format: typeof ENVELOPE_FORMAT;
+    readonly version: number;
+    readonly savedAt: number;
+    readonly revision?: Revision;
+    readonly expiresAt?: number;
+    readonly appBuild?: string;
+    readonly checksum?: string;
+    readonly codec?: string;
+    readonly payload: SerializedData;
+    /** payloads converted to older versions, so that builds that were rolled back can read the record */
+    readonly downgrades?: Record<number, SerializedData>;
+    /** payload of a newer version, kept when a rolled back build overwrites the record */
+    readonly latest?: StoredPayload;
+    /** checksums of partitions stored under their own keys, `payload` is empty then */
+    readonly partitions?: Record<PartitionKey, string>;
+}
+
+type StoredPayload = Pick<
+    RecordEnvelope,
+    "version" | "codec" | "payload" | "downgrades"
+>;
+
+const ENVELOPE_FORMAT = 1;
+
+export class CorruptedRecordError extends Error {
+    readonly name = "CorruptedRecordError";
+}
+
+export function createRecordFormat<TState extends Real>(
+    config: Pick<
+        Config<TState, never>,
+        | "key"
+        | "namespace"
+        | "json"
+        | "version"
+        | "downgrade"
+        | "appBuild"
+        | "checksum"
+        | "ttl"
+        | "now"
+        | "partition"
+    > & {
+        readonly codecs: readonly AsyncCodec[];
+        readonly retiredCodecs: readonly AsyncCodec[];
+    },
+) {
+    const { json, version: latestVersion, ttl, now } = config;
+    const codecs = createCodecPipeline(config.codecs, config.retiredCodecs);
+    // payloads of versions newer than the current one, they are written back with owner's next record
+    const retained = new Map<OwnerKey, StoredPayload>();
+
+    const { namespace } = config;
+    const namespacedKey = `${namespace}:${config.key}:`;
+    const ownersKey = `${namespace}:${config.key}`;
+    const quarantineKey = `${namespace}:${config.key}!quarantine:`;
+    const partitionKey = `${namespace}:${config.key}!partition:`;
+    // records written by `Partition.byField` stay readable once partitioning is turned off
+    const { join } = config.partition ?? Partition.byField();
+    const legacySeparator = "|";
+
+    return {
+        ownersKey,
+        parseOwners,
+        serializeOwners,
+        getOwnedKey,
+        getQuarantineKey,
+        isQuarantineKey,
+        getPartitionKey,
+        isPartitionKey,
+        getPartitions,
+        getPartitionKeys,
+        getOwner,
+        getOwners,
+        serialize,
+        serializeAsync,
+        serializePartition,
+        serializePartitionAsync,
+        serializeManifest,
+        createRevision,
+        getRevision,
+        parse,
+        parseAsync,
+        isLegacy,
+        isExpired,
+        upgradeLegacy,
+        forget,
+    };
+
+    /**
+     * @param readPartition reads partitions of partitioned records
+     */
+    function parse(
+        storedString: SerializedData | null,
+        owner: OwnerKey,
+        readPartition: (key: StorageKey) => SerializedData | null,
+    ) {
+        const envelope = unpack(storedString);
+        if (!envelope) return undefined;
+        if (envelope.partitions) {
+            const decoded = Object.entries(envelope.partitions).map(
+                ([name, checksum]) => {
+                    const payload = verifyPartition(
+                        name,
+                        checksum,
+                        readPartition(getPartitionKey(owner, name, checksum)),
+                    );
+                    const decoded = codecs.decode(
+                        payload,
+                        envelope.codec,
+                        getContext(owner),
+                    );
+                    return [name, ensureSync(decoded)] as const;
+                },
+            );
+            return joinPartitions(envelope, decoded);
+        }
+        const chosen = choosePayload(envelope, owner);
+        const payload = codecs.decode(
+            chosen.payload,
+            chosen.codec,
+            getContext(owner),
+        );
+        return toRecord(envelope, chosen.version, ensureSync(payload));
+    }
+
+    async function parseAsync(
+        storedString: SerializedData | null,
+        owner: OwnerKey,
+        readPartition: (key: StorageKey) => Promise<SerializedData | null>,
+    ) {
+        const envelope = unpack(storedString);
+        if (!envelope) return undefined;
+        if (envelope.partitions) {
+            const decoded = Object.entries(envelope.partitions).map(
+                async ([name, checksum]) => {
+                    const payload = verifyPartition(
+                        name,
+                        checksum,
+                        await readPartition(
+                            getPartitionKey(owner, name, checksum),
+                        ),
+                    );
+                    const decoded = await codecs.decode(
+                        payload,
+                        envelope.codec,
+                        getContext(owner),
+                    );
+                    return [name, decoded] as const;
+                },
+            );
+            return joinPartitions(envelope, await Promise.all(decoded));
+        }
+        const chosen = choosePayload(envelope, owner);
+        const payload = await codecs.decode(
+            chosen.payload,
+            chosen.codec,
+            getContext(owner),
+        );
+        return toRecord(envelope, chosen.version, payload);
+    }
+
+    function serialize(
+        state: TState,
+        owner: OwnerKey,
+        revision: Revision | undefined,
+    ) {
+        const context = getContext(owner);
+        const encode = (data: Real) =>
+            ensureSync(codecs.encode(json.stringify(data), context));
+        const downgrades = config
+            .downgrade(state)
+            .map(({ version, data }) => [version, encode(data)] as const);
+        return pack(state, owner, revision, encode(state), downgrades);
+    }
+
+    async function serializeAsync(
+        state: TState,
+        owner: OwnerKey,
+        revision: Revision | undefined,
+    ) {
+        const context = getContext(owner);
+        const encode = (data: Real) =>
+            codecs.encode(json.stringify(data), context);
+        const downgrades = config
+            .downgrade(state)
+            .map(
+                async ({ version, data }) =>
+                    [version, await encode(data)] as const,
+            );
+        return pack(
+            state,
+            owner,
+            revision,
+            await encode(state),
+            await Promise.all(downgrades),
+        );
+    }
+
+    function serializePartition(data: Real, owner: OwnerKey) {
+        const payload = ensureSync(
+            codecs.encode(json.stringify(data), getContext(owner)),
+        );
+        return { payload, checksum: checksumOf(payload) };
+    }
+
+    async function serializePartitionAsync(data: Real, owner: OwnerKey) {
+        const payload = await codecs.encode(
+            json.stringify(data),
+            getContext(owner),
+        );
+        return { payload, checksum: checksumOf(payload) };
+    }
+
+    /**
+     * Record of partitioned state, partitions themselves are written separately.
+     * There are no downgrades, builds that were rolled back reset the state.
+     */
+    function serializeManifest(
+        state: TState,
+        revision: Revision | undefined,
+        partitions: Record<PartitionKey, string>,
+    ): SerializedData {
+        const lifetime = typeof ttl === "function" ? ttl(state) : ttl;
+        return writeEnvelope("", latestVersion, {
+            revision,
+            expiresAt: lifetime === undefined ? undefined : now() + lifetime,
+            codec: codecs.id,
+            partitions,
+        });
+    }
+
+    /**
+     * Unique per write, so that a record written elsewhere can be told apart from the one last read or written
+     */
+    function createRevision(): Revision {
+        return now().toString(36) + Math.random().toString(36).slice(2, 10);
+    }
+
+    /**
+     * Only reads the envelope, records written before revisions were introduced have none
+     */
+    function getRevision(storedString: SerializedData) {
+        return isLegacy(storedString)
+            ? undefined
+            : readEnvelope(storedString).revision;
+    }
+
+    /**
+     * Checksums of partitions the record consists of, none when it is not partitioned or cannot be read
+     */
+    function getPartitions(
+        storedString: SerializedData | null,
+    ): Map<PartitionKey, string> {
+        try {
+            const envelope = storedString && readEnvelope(storedString);
+            return new Map(
+                Object.entries((envelope && envelope.partitions) || {}),
+            );
+        } catch {
+            return new Map();
+        }
+    }
+
+    /**
+     * Keys of partitions the record refers to, even when partitioning has been turned off since it was written
+     */
+    function getPartitionKeys(
+        owner: OwnerKey,
+        storedString: SerializedData | null,
+    ): StorageKey[] {
+        return Array.from(getPartitions(storedString), ([name, checksum]) =>
+            getPartitionKey(owner, name, checksum),
+        );
+    }
+
+    function verifyPartition(
+        name: PartitionKey,
+        checksum: string,
+        payload: SerializedData | null,
+    ) {
+        if (payload === null || checksumOf(payload) !== checksum) {
+            throw new CorruptedRecordError(
+                `Partition "${name}" of persisted ${config.key} is missing or does not match the record`,
+            );
+        }
+        return payload;
+    }
+
+    function joinPartitions(
+        envelope: ReturnType<typeof readEnvelope>,
+        decoded: (readonly [PartitionKey, SerializedData])[],
+    ): PersistedRecord {
+        const partitions = Object.fromEntries(
+            decoded.map(([name, payload]) => [name, parseData(payload)]),
+        );
+        const { version, savedAt, appBuild, revision } = envelope;
+        return {
+            data: join(partitions),
+            version,
+            savedAt,
+            appBuild,
+            revision,
+            partitions,
+        };
+    }
+
+    /**
+     * The newest payload wins, records written by newer versions are read from their downgrades
+     */
+    function choosePayload(
+        envelope: ReturnType<typeof readEnvelope>,
+        owner: OwnerKey,
+    ): StoredPayload {
+        // `latest` is only ever kept when it is newer than the record itself
+        const newest = envelope.latest ?? envelope;
+        if (newest.version > latestVersion) {
+            const { version, codec, payload, downgrades } = newest;
+            retained.set(owner, { version, codec, payload, downgrades });
+            return findDowngrade(newest) ?? envelope;
+        }
+        retained.delete(owner);
+        return newest;
+    }
+
+    function findDowngrade({ codec, downgrades = {} }: StoredPayload) {
+        const readable = Object.keys(downgrades)
+            .map(Number)
+            .filter((version) => version <= latestVersion);
+        if (!readable.length) return undefined;
+
+        const version = Math.max(...readable);
+        return { version, codec, payload: downgrades[version] };
+    }
+
+    /**
+     * Record of the owner was removed, there is no newer payload to keep anymore
+     */
+    function forget(owner: OwnerKey) {
+        retained.delete(owner);
+    }
+
+    function unpack(storedString: SerializedData | null) {
+        if (!storedString) return undefined;
+
+        const envelope = readEnvelope(storedString);
+        if (hasExpired(envelope)) return undefined;
+        if (
+            envelope.checksum !== undefined &&
+            envelope.checksum !== checksumOf(envelope.payload)
+        ) {
+            throw new CorruptedRecordError(
+                `Checksum of persisted ${config.key} does not match, record is corrupted or truncated`,
+            );
+        }
+        return envelope;
+    }
+
+    function toRecord(
+        envelope: ReturnType<typeof readEnvelope>,
+        version: number,
+        payload: SerializedData,
+    ): PersistedRecord | undefined {
+        const data = parseData(payload);
+        if (data == null) return undefined;
+
+        const { savedAt, appBuild, revision } = envelope;
+        return { data, version, savedAt, appBuild, revision };
+    }
+
+    function parseData(payload: SerializedData) {
+        try {
+            return json.parse(payload);
+        } catch (error) {
+            throw new CorruptedRecordError(
+                `Persisted ${config.key} cannot be parsed`,
+                { cause: error },
+            );
+        }
+    }
+
+    function pack(
+        state: TState,
+        owner: OwnerKey,
+        revision: Revision | undefined,
+        payload: SerializedData,
+        downgrades: (readonly [number, SerializedData])[],
+    ): SerializedData {
+        const lifetime = typeof ttl === "function" ? ttl(state) : ttl;
+        return writeEnvelope(payload, latestVersion, {
+            revision,
+            expiresAt: lifetime === undefined ? undefined : now() + lifetime,
+            codec: codecs.id,
+            downgrades: downgrades.length
+                ? Object.fromEntries(downgrades)
+                : undefined,
+            latest: retained.get(owner),
+        });
+    }
+
+    function ensureSync(payload: SerializedData | Promise<SerializedData>) {
+        if (typeof payload !== "string") {
+            payload.catch(() => {});
+            throw new TypeError(
+                `[PERSISTENCE] Codecs of ${config.key} are asynchronous, they require createAsyncPersistenceEffects`,
+            );
+        }
+        return payload;
+    }
+
+    function getContext(owner: OwnerKey): CodecContext {
+        return { key: config.key, owner };
+    }
+
+    /**
+     * Only reads the envelope, so that expired records can be found without parsing their state
+     */
+    function isExpired(storedString: SerializedData) {
+        return hasExpired(readEnvelope(storedString));
+    }
+
+    function hasExpired(envelope: { expiresAt?: number }) {
+        return envelope.expiresAt !== undefined && envelope.expiresAt <= now();
+    }
+
+    function isLegacy(storedString: SerializedData) {
+        return !storedString.startsWith("{");
+    }
+
+    /**
+     * Rewrites `version|payload` record into an envelope, payload is kept as is
+     */
+    function upgradeLegacy(storedString: SerializedData): SerializedData {
+        const { payload, version } = readEnvelope(storedString);
+        return writeEnvelope(payload, version);
+    }
+
+    function readEnvelope(
+        storedString: SerializedData,
+    ): Omit<RecordEnvelope, "format" | "savedAt"> & { savedAt?: number } {
+        if (isLegacy(storedString)) {
+            const separatorIdx = storedString.indexOf(legacySeparator);
+            return {
+                version: parseInt(storedString.slice(0, separatorIdx)),
+                payload: storedString.slice(separatorIdx + 1),
+            };
+        }
+
+        let envelope: Partial<RecordEnvelope>;
+        try {
+            envelope = JSON.parse(storedString);
+        } catch (error) {
+            throw new CorruptedRecordError(
+                `Persisted ${config.key} is not a valid record`,
+                { cause: error },
+            );
+        }
+        if (
+            envelope.format !== ENVELOPE_FORMAT ||
+            typeof envelope.version !== "number" ||
+            typeof envelope.payload !== "string"
+        ) {
+            throw new CorruptedRecordError(
+                `Persisted ${config.key} is not a valid record`,
+            );
+        }
+        return envelope as RecordEnvelope;
+    }
+
+    function writeEnvelope(
+        payload: SerializedData,
+        version: number,
+        {
+            revision,
+            expiresAt,
+            codec,
+            downgrades,
+            latest,
+            partitions,
+        }: Pick<
+            RecordEnvelope,
+            | "revision"
+            | "expiresAt"
+            | "codec"
+            | "downgrades"
+            | "latest"
+            | "partitions"
+        > = {},
+    ) {
+        const envelope: RecordEnvelope = {
+            format: ENVELOPE_FORMAT,
+            version,
+            savedAt: now(),
+            revision,
+            expiresAt,
+            appBuild: config.appBuild,
+            checksum: config.checksum ? checksumOf(payload) : undefined,
+            codec,
+            payload,
+            downgrades,
+            latest,
+            partitions,
+        };
+        return JSON.stringify(envelope);
+    }
+
+    function parseOwners(storedString: SerializedData | null): OwnersRecord {
+        try {
+            const owners: unknown = storedString && JSON.parse(storedString);
+            return owners && typeof owners === "object"
+                ? (owners as OwnersRecord)
+                : {};
+        } catch {
+            return {};
+        }
+    }
+
+    function serializeOwners(owners: OwnersRecord): SerializedData {
+        return JSON.stringify(owners);
+    }
+
+    function* getOwners(keys: Iterable<StorageKey>) {
+        for (const key of keys) {
+            const owner = getOwner(key);
+            if (owner != null) yield owner;
+        }
+    }
+
+    function getOwner(key: StorageKey): OwnerKey | undefined {
+        if (key.startsWith(namespacedKey))
+            return key.replace(namespacedKey, "");
+    }
+
+    function getOwnedKey(owner: OwnerKey) {
+        return namespacedKey + owner;
+    }
+
+    function getQuarantineKey(owner: OwnerKey) {
+        return quarantineKey + owner;
+    }
+
+    function isQuarantineKey(key: StorageKey) {
+        return key.startsWith(quarantineKey);
+    }
+
+    /**
+     * Payload that changed is written under a new key, so that the record keeps referring to the previous one
+     * until it is written itself. Encoded name never contains ":", so that owners cannot be mistaken for names.
+     */
+    function getPartitionKey(
+        owner: OwnerKey,
+        name: PartitionKey,
+        checksum: string,
+    ) {
+        return `${partitionKey}${encodeURIComponent(name)}:${checksum}:${owner}`;
+    }
+
+    function isPartitionKey(key: StorageKey) {
+        return key.startsWith(partitionKey);
+    }
+}
+
+// FNV-1a, only meant to detect accidental damage
+function checksumOf(payload: SerializedData) {
+    let hash = 0x811c9dc5;
+    for (let idx = 0; idx < payload.length; idx++) {
+        hash ^= payload.charCodeAt(idx);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+}
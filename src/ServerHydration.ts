@@ -0,0 +1,42 @@
+import { CookieStorageOptions, createCookieStorage } from "./CookieStorage";
+import { MinimalRequiredStoreAPI } from "./PersistenceEffects";
+import { WebStorage } from "./WebStorage";
+
+/**
+ * Anything the `Cookie` header can be taken from: the header itself or a fetch API `Request`
+ */
+export type CookieSource =
+    | string
+    | null
+    | undefined
+    | { readonly headers: { readonly get: (name: string) => string | null } };
+
+interface HydratableEffects<TParent> {
+    readonly hydrate: (api: MinimalRequiredStoreAPI<TParent>) => void;
+}
+
+/**
+ * Hydrates a store created for a single server request from cookies of the request, before it is rendered.
+ * Effects are created by `createEffects` against cookie storage of the request, with the same
+ * `actualize` as in the browser so that records are migrated and validated the same way.
+ */
+export function hydrateFromRequest<TParent>(
+    store: MinimalRequiredStoreAPI<TParent>,
+    request: CookieSource,
+    createEffects: (
+        storage: WebStorage,
+    ) => readonly HydratableEffects<TParent>[],
+    options: Omit<CookieStorageOptions, "cookieHeader"> = {},
+) {
+    const cookieHeader =
+        typeof request === "object" && request !== null
+            ? request.headers.get("cookie")
+            : request;
+    const storage = createCookieStorage({
+        ...options,
+        cookieHeader: cookieHeader ?? "",
+    });
+    for (const effects of createEffects(storage)) {
+        effects.hydrate(store);
+    }
+}
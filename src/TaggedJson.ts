@@ -0,0 +1,176 @@
+import { SerializedData } from "./WebStorage";
+
+/**
+ * Teaches `taggedJson` to store a type JSON cannot represent.
+ * `encode` result is serialized further, so it may contain other tagged values.
+ * `decode` gets whatever was stored and should throw when it has unexpected shape.
+ */
+export interface TypeHandler<T = unknown> {
+    /** stored with the value, must not change once records are written */
+    readonly tag: string;
+    readonly test: (value: unknown) => value is T;
+    // method, so that handlers of any type can be given together
+    encode(value: T): unknown;
+    readonly decode: (encoded: unknown) => T;
+}
+
+export type TaggedJson = Pick<typeof JSON, "parse" | "stringify">;
+
+const TAG = "$type";
+const VALUE = "value";
+/** marks plain objects that have their own `$type` key */
+const ESCAPED = "Object";
+
+type Tagged = { readonly [TAG]: string; readonly [VALUE]: unknown };
+
+const date: TypeHandler<Date> = {
+    tag: "Date",
+    test: (value): value is Date => value instanceof Date,
+    // invalid dates have no ISO form
+    encode: (value) =>
+        Number.isNaN(value.getTime()) ? null : value.toISOString(),
+    decode: (encoded) =>
+        new Date(encoded === null ? NaN : expectString(encoded)),
+};
+
+const map: TypeHandler<Map<unknown, unknown>> = {
+    tag: "Map",
+    test: (value): value is Map<unknown, unknown> => value instanceof Map,
+    encode: (value) => Array.from(value),
+    decode: (encoded) =>
+        new Map(
+            expectArray(encoded).map((entry) => {
+                const [key, value] = expectArray(entry);
+                return [key, value];
+            }),
+        ),
+};
+
+const set: TypeHandler<Set<unknown>> = {
+    tag: "Set",
+    test: (value): value is Set<unknown> => value instanceof Set,
+    encode: (value) => Array.from(value),
+    decode: (encoded) => new Set(expectArray(encoded)),
+};
+
+const bigint: TypeHandler<bigint> = {
+    tag: "BigInt",
+    test: (value): value is bigint => typeof value === "bigint",
+    encode: (value) => value.toString(),
+    decode: (encoded) => BigInt(expectString(encoded)),
+};
+
+function expectString(encoded: unknown): string {
+    if (typeof encoded !== "string") {
+        throw new TypeError("[PERSISTENCE] Tagged value must be a string");
+    }
+    return encoded;
+}
+
+function expectArray(encoded: unknown): unknown[] {
+    if (!Array.isArray(encoded)) {
+        throw new TypeError("[PERSISTENCE] Tagged value must be an array");
+    }
+    return encoded;
+}
+
+const builtins = [date, map, set, bigint];
+
+/**
+ * Serializer for `json` option that keeps `Date`, `Map`, `Set` and `BigInt` (plus types of given handlers)
+ * as `{"$type": tag, "value": ...}` objects. Output is plain JSON, records written with `JSON` are read as before.
+ * Cyclic structures are not supported.
+ */
+export function createTaggedJson(...handlers: TypeHandler[]): TaggedJson {
+    const all = [...handlers, ...builtins];
+    // handlers given by the app take precedence over built-in ones
+    const byTag = new Map([...builtins, ...handlers].map((it) => [it.tag, it]));
+    if (byTag.has(ESCAPED)) {
+        throw new TypeError(
+            `[PERSISTENCE] "${ESCAPED}" tag is reserved by taggedJson`,
+        );
+    }
+
+    return {
+        stringify: (value: unknown) => JSON.stringify(encode(value, [])),
+        parse: (text: SerializedData) => decode(JSON.parse(text)),
+    };
+
+    function encode(value: unknown, ancestors: object[]): unknown {
+        if (typeof value !== "object" || value === null) {
+            const handler = all.find((it) => it.test(value));
+            return handler ? tagged(handler, value, ancestors) : value;
+        }
+        if (ancestors.includes(value)) {
+            throw new TypeError(
+                "[PERSISTENCE] Cyclic structures cannot be serialized",
+            );
+        }
+        const nested = [...ancestors, value];
+        const handler = all.find((it) => it.test(value));
+        if (handler) {
+            return tagged(handler, value, nested);
+        }
+        if ("toJSON" in value && typeof value.toJSON === "function") {
+            return encode(value.toJSON(), ancestors);
+        }
+        if (Array.isArray(value)) {
+            return value.map((item) => encode(item, nested));
+        }
+        const entries = Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [
+                key,
+                encode(item, nested),
+            ]),
+        );
+        return TAG in value ? { [TAG]: ESCAPED, [VALUE]: entries } : entries;
+    }
+
+    function tagged(
+        handler: TypeHandler,
+        value: unknown,
+        ancestors: object[],
+    ): Tagged {
+        return {
+            [TAG]: handler.tag,
+            [VALUE]: encode(handler.encode(value), ancestors),
+        };
+    }
+
+    function decode(value: unknown): unknown {
+        if (typeof value !== "object" || value === null) {
+            return value;
+        }
+        if (Array.isArray(value)) {
+            return value.map(decode);
+        }
+        if (isTagged(value)) {
+            if (value[TAG] === ESCAPED) {
+                return decodeEntries(value[VALUE] as object);
+            }
+            const handler = byTag.get(value[TAG]);
+            if (handler) {
+                return handler.decode(decode(value[VALUE]));
+            }
+        }
+        // unknown tags are left as is, they may be data written with plain `JSON`
+        return decodeEntries(value);
+    }
+
+    function decodeEntries(value: object) {
+        return Object.fromEntries(
+            Object.entries(value).map(([key, item]) => [key, decode(item)]),
+        );
+    }
+}
+
+function isTagged(value: object): value is Tagged {
+    const keys = Object.keys(value);
+    return (
+        keys.length === 2 &&
+        typeof (value as Tagged)[TAG] === "string" &&
+        VALUE in value
+    );
+}
+
+export const taggedJson = createTaggedJson();
@@ -0,0 +1,104 @@
+import { Decoder } from "io-ts";
+
+/**
+ * Anything that can check persisted data of a version:
+ * a throwing function, an io-ts codec or a Standard Schema validator (zod, valibot, arktype...)
+ */
+export type Validator<T> =
+    | ((state: unknown) => T)
+    | Decoder<unknown, T>
+    | StandardSchema<T>;
+
+/**
+ * Subset of Standard Schema v1 spec that is needed to validate, see https://standardschema.dev
+ */
+export interface StandardSchema<T> {
+    readonly "~standard": {
+        readonly version: 1;
+        readonly vendor: string;
+        readonly validate: (
+            value: unknown,
+        ) => StandardResult<T> | Promise<StandardResult<T>>;
+    };
+}
+
+type StandardResult<T> =
+    | { readonly value: T; readonly issues?: undefined }
+    | {
+          readonly issues: readonly {
+              readonly message: string;
+              readonly path?: readonly (PropertyKey | { key: PropertyKey })[];
+          }[];
+      };
+
+export interface ValidationIssue {
+    readonly message: string;
+    /** keys leading to the invalid value, empty when the whole state is invalid */
+    readonly path: readonly PropertyKey[];
+}
+
+/**
+ * Thrown by validators given to migration builder as a schema, issues never contain persisted values
+ */
+export class SchemaValidationError extends Error {
+    readonly name = "SchemaValidationError";
+
+    constructor(readonly issues: readonly ValidationIssue[]) {
+        const [first] = issues;
+        super(
+            `Validation failed with ${issues.length} issue(s)` +
+                (first
+                    ? `, first at [${first.path.join(".")}]: ${first.message}`
+                    : ""),
+        );
+    }
+}
+
+export function toValidateFn<T>(
+    validator: Validator<T>,
+): (state: unknown) => T {
+    // schemas can be callable too (arktype), they return errors instead of throwing
+    if ("~standard" in validator) {
+        return (state) => validateStandard(validator, state);
+    }
+    if (typeof validator === "function") {
+        return validator;
+    }
+    return (state) => validateIoTs(validator, state);
+}
+
+function validateStandard<T>(schema: StandardSchema<T>, state: unknown) {
+    const result = schema["~standard"].validate(state);
+    if (result instanceof Promise) {
+        result.catch(() => {});
+        throw new TypeError(
+            `[PERSISTENCE] ${schema["~standard"].vendor} schema validates asynchronously, only synchronous schemas are supported`,
+        );
+    }
+    if (result.issues) {
+        throw new SchemaValidationError(
+            result.issues.map(({ message, path = [] }) => ({
+                message,
+                path: path.map((segment) =>
+                    typeof segment === "object" ? segment.key : segment,
+                ),
+            })),
+        );
+    }
+    return result.value;
+}
+
+function validateIoTs<T>(decoder: Decoder<unknown, T>, state: unknown) {
+    const result = decoder.decode(state);
+    if (result._tag === "Right") {
+        return result.right;
+    }
+    throw new SchemaValidationError(
+        result.left.map(({ context, message }) => ({
+            // first entry is the root type itself
+            path: context.slice(1).map(({ key }) => key),
+            message:
+                message ?? `Expected ${context[context.length - 1].type.name}`,
+        })),
+    );
+}
@@ -0,0 +1,121 @@
+import { Real } from "./Config";
+import {
+    MigrationError,
+    ResetSentinel,
+    ShapeDescription,
+    TypeDescription,
+    VersioningConfig,
+    VersioningConfigBuilder,
+    buildMigration,
+    describeShape,
+} from "./Migration";
+import { ValidationIssue } from "./Validation";
+
+export interface MigrationFailure {
+    /** index of the fixture within its version */
+    readonly index: number;
+    readonly message: string;
+    /** shape of the data at the step that failed, never the data itself */
+    readonly persistedShape: ShapeDescription | TypeDescription;
+    readonly issues?: readonly ValidationIssue[];
+}
+
+export interface VersionReport {
+    readonly version: number;
+    readonly fixtures: number;
+    readonly failures: readonly MigrationFailure[];
+}
+
+export interface MigrationReport {
+    readonly ok: boolean;
+    readonly currentVersion: number;
+    /** one row per version that has fixtures, oldest first */
+    readonly versions: readonly VersionReport[];
+    /** human readable table, e.g. for an assertion message */
+    toString(): string;
+}
+
+/**
+ * Runs sample payloads of historical versions through `migrate` up to the current version,
+ * which also validates them. Does not depend on a test framework, assert on `ok` of the report:
+ *
+ * ```ts
+ * const report = verifyMigrations(actualizePreferences, { 1: [v1Payload], 2: [v2Payload, v2Legacy] });
+ * expect(report.ok, report.toString()).toBe(true);
+ * ```
+ */
+export function verifyMigrations<TLatest extends Real>(
+    actualize: VersioningConfigBuilder<TLatest> | VersioningConfig<TLatest>,
+    fixtures: Readonly<Record<number, readonly unknown[]>>,
+): MigrationReport {
+    const { version: currentVersion, migrate } =
+        typeof actualize === "object" ? actualize : buildMigration(actualize);
+
+    const versions = Object.entries(fixtures)
+        .map(([key, samples]) => {
+            const version = Number(key);
+            const failures = samples.flatMap((fixture, index) => {
+                const failure = verify(fixture, version, index);
+                return failure ? [failure] : [];
+            });
+            return { version, fixtures: samples.length, failures };
+        })
+        .sort((a, b) => a.version - b.version);
+
+    return {
+        ok: versions.every(({ failures }) => !failures.length),
+        currentVersion,
+        versions,
+        toString: () => formatReport(currentVersion, versions),
+    };
+
+    function verify(
+        fixture: unknown,
+        version: number,
+        index: number,
+    ): MigrationFailure | undefined {
+        try {
+            if (migrate(fixture as Real, version) === ResetSentinel) {
+                return {
+                    index,
+                    message: `Version ${version} is newer than current ${currentVersion}, data would be reset`,
+                    persistedShape: describeShape(fixture),
+                };
+            }
+        } catch (error) {
+            const isMigrationError = error instanceof MigrationError;
+            return {
+                index,
+                message: error instanceof Error ? error.message : String(error),
+                persistedShape: isMigrationError
+                    ? error.persistedShape
+                    : describeShape(fixture),
+                issues: isMigrationError ? error.issues : undefined,
+            };
+        }
+    }
+}
+
+function formatReport(
+    currentVersion: number,
+    versions: readonly VersionReport[],
+) {
+    const lines = [`Migrations to version ${currentVersion}:`];
+    for (const { version, fixtures, failures } of versions) {
+        lines.push(
+            failures.length
+                ? `  v${version}: ${failures.length} of ${fixtures} failed`
+                : `  v${version}: ok (${fixtures})`,
+        );
+        for (const { index, message, persistedShape, issues } of failures) {
+            lines.push(`    #${index}: ${message}`);
+            lines.push(`      shape: ${JSON.stringify(persistedShape)}`);
+            for (const { path, message } of issues ?? []) {
+                lines.push(
+                    `      at [${path.map(String).join(".")}]: ${message}`,
+                );
+            }
+        }
+    }
+    return lines.join("\n");
+}
@@ -1,5 +1,10 @@
+import { isQuotaExceededError } from "./DiskSpace";
+import { createMemoryStorage } from "./MemoryStorage";
+
 export const local = createWebStorage("local");
 export const session = createWebStorage("session");
+/** keeps state until the page is closed */
+export const memory = createMemoryStorage();
 
 export type StorageKey = string;
 export type SerializedData = string;
@@ -8,6 +13,30 @@ export interface WebStorage {
     setItem: (key: StorageKey, value: SerializedData) => void;
     getItem: (key: StorageKey) => SerializedData | null;
     removeItem: (key: StorageKey) => void;
+
+    /**
+     * Enumeration is optional, storages that cannot list their keys get owners tracked in an index record.
+     * Either `keys` or `key` together with `length` (as in `Storage`) is used.
+     */
+    keys?: () => Iterable<StorageKey>;
+    key?: (index: number) => StorageKey | null;
+    readonly length?: number;
+
+    /**
+     * Storage that `storage` events of other tabs refer to, the storage itself when omitted
+     */
+    readonly storageArea?: WebStorage;
+}
+
+/**
+ * Promise based storage, shaped after React Native `AsyncStorage` so it can be passed as is.
+ * See `createIndexedDBStorage` for a browser implementation.
+ */
+export interface AsyncWebStorage {
+    setItem: (key: StorageKey, value: SerializedData) => Promise<void>;
+    getItem: (key: StorageKey) => Promise<SerializedData | null>;
+    removeItem: (key: StorageKey) => Promise<void>;
+    getAllKeys: () => Promise<readonly StorageKey[]>;
 }
 
 function createWebStorage(type: StorageType): WebStorage {
@@ -17,24 +46,38 @@ function createWebStorage(type: StorageType): WebStorage {
         setItem: (key: StorageKey, item: SerializedData) =>
             storage.setItem(key, item),
         removeItem: (key: StorageKey) => storage.removeItem(key),
+        keys: () => listKeys(storage) ?? [],
+        storageArea: storage,
     };
 }
 
-type StorageType = "local" | "session";
-
-function getStorage(type: StorageType): WebStorage {
-    const storageType = `${type}Storage` as const;
+export function canEnumerate(storage: WebStorage) {
+    return (
+        !!storage.keys || (!!storage.key && typeof storage.length === "number")
+    );
+}
 
-    if (hasStorage(storageType)) {
-        return self[storageType];
-    } else {
-        return createNoopStorage();
+export function listKeys(storage: WebStorage): StorageKey[] | undefined {
+    if (storage.keys) {
+        return Array.from(storage.keys());
     }
+    if (storage.key && typeof storage.length === "number") {
+        const keys = new Array<StorageKey>();
+        for (let idx = 0; idx < storage.length; idx++) {
+            const key = storage.key(idx);
+            if (key != null) keys.push(key);
+        }
+        return keys;
+    }
+    return undefined;
 }
 
-function hasStorage(storageType: `${StorageType}Storage`) {
+type StorageType = "local" | "session";
+
+function getStorage(type: StorageType): WebStorage {
+    const storageType = `${type}Storage` as const;
     if (typeof self !== "object" || !(storageType in self)) {
-        return false;
+        return createNoopStorage();
     }
 
     try {
@@ -43,14 +86,28 @@ function hasStorage(storageType: `${StorageType}Storage`) {
         storage.setItem(testKey, "test");
         storage.getItem(testKey);
         storage.removeItem(testKey);
+        return storage;
     } catch (error) {
-        if (self.constructor.name === "Window") {
-            throw error;
-        } else {
-            return false;
-        }
+        // full storage can still be read, writes report the quota
+        if (isQuotaExceededError(error)) return self[storageType];
+        // runs on import, so it must not throw, `fallbackStorage` moves past it
+        return createFailingStorage(error);
     }
-    return true;
+}
+
+/**
+ * Stands for storage that cannot be accessed (e.g. blocked by browser settings),
+ * writes fail with the access error so that it is reported
+ */
+function createFailingStorage(error: unknown): WebStorage {
+    return {
+        getItem: (_key) => null,
+        setItem: (_key, _value) => {
+            throw error;
+        },
+        removeItem: (_key) => {},
+        keys: () => [],
+    };
 }
 
 function createNoopStorage(): WebStorage {
@@ -63,5 +120,6 @@ function createNoopStorage(): WebStorage {
         getItem: (_key) => null,
         setItem: (_key, _value) => {},
         removeItem: (_key) => {},
+        keys: () => [],
     };
 }
@@ -0,0 +1,192 @@
+import { Real } from "./Config";
+import { OwnerKey } from "./DiskSpace";
+
+/**
+ * Decides when queued writes are flushed to storage, `schedule` is called every time a write is queued.
+ */
+export type WriteStrategy = (flush: () => void) => WriteSchedule;
+
+interface WriteSchedule {
+    readonly schedule: () => void;
+    readonly cancel: () => void;
+}
+
+/**
+ * Timers strategies schedule writes with, global ones by default, useful in tests
+ */
+export interface Timers {
+    readonly setTimeout: (callback: () => void, ms: number) => unknown;
+    readonly clearTimeout: (handle: unknown) => void;
+    readonly now: () => number;
+    /** `idle` strategy falls back to a timeout without it */
+    readonly requestIdleCallback?: (
+        callback: () => void,
+        options: { timeout: number },
+    ) => unknown;
+    readonly cancelIdleCallback?: (handle: unknown) => void;
+}
+
+const globalTimers: Timers = {
+    setTimeout: (callback, ms) => setTimeout(callback, ms),
+    clearTimeout: (handle) =>
+        clearTimeout(handle as ReturnType<typeof setTimeout>),
+    now: () => Date.now(),
+    ...(typeof requestIdleCallback === "function" && {
+        requestIdleCallback: (callback, options) =>
+            requestIdleCallback(callback, options),
+        cancelIdleCallback: (handle) => cancelIdleCallback(handle as number),
+    }),
+};
+
+const immediate: WriteStrategy = (flush) => ({
+    schedule: flush,
+    cancel: () => {},
+});
+
+const debounce =
+    (ms: number, timers: Timers = globalTimers): WriteStrategy =>
+    (flush) => {
+        let timer: unknown;
+        return {
+            schedule() {
+                timers.clearTimeout(timer);
+                timer = timers.setTimeout(flush, ms);
+            },
+            cancel() {
+                timers.clearTimeout(timer);
+            },
+        };
+    };
+
+const throttle =
+    (ms: number, timers: Timers = globalTimers): WriteStrategy =>
+    (flush) => {
+        let timer: unknown;
+        let lastFlush = -Infinity;
+        const run = () => {
+            timer = undefined;
+            lastFlush = timers.now();
+            flush();
+        };
+        return {
+            schedule() {
+                if (timer !== undefined) return;
+                const wait = lastFlush + ms - timers.now();
+                if (wait <= 0) {
+                    run();
+                } else {
+                    timer = timers.setTimeout(run, wait);
+                }
+            },
+            cancel() {
+                timers.clearTimeout(timer);
+                timer = undefined;
+            },
+        };
+    };
+
+const idle =
+    (timers: Timers = globalTimers): WriteStrategy =>
+    (flush) => {
+        const { requestIdleCallback, cancelIdleCallback } = timers;
+        let handle: unknown;
+        const run = () => {
+            handle = undefined;
+            flush();
+        };
+        return {
+            schedule() {
+                if (handle !== undefined) return;
+                handle = requestIdleCallback
+                    ? requestIdleCallback(run, { timeout: 1000 })
+                    : timers.setTimeout(run, 0);
+            },
+            cancel() {
+                if (handle === undefined) return;
+                if (requestIdleCallback) {
+                    cancelIdleCallback?.(handle);
+                } else {
+                    timers.clearTimeout(handle);
+                }
+                handle = undefined;
+            },
+        };
+    };
+
+export const WriteStrategy = {
+    /** writes during the update effect, this is the default */
+    immediate,
+    /** writes once there were no updates for `ms` */
+    debounce,
+    /** writes at most once per `ms` */
+    throttle,
+    /** writes when browser is idle (falls back to a timeout) */
+    idle,
+} as const;
+
+export type WriteQueue<TState extends Real, TResult> = ReturnType<
+    typeof createWriteQueue<TState, TResult>
+>;
+
+/**
+ * Keeps only the latest write of each owner until strategy flushes them,
+ * `undefined` state stands for removal.
+ */
+export function createWriteQueue<TState extends Real, TResult>(
+    strategy: WriteStrategy,
+    write: (owner: OwnerKey, state: TState | undefined) => TResult,
+) {
+    const pending = new Map<OwnerKey, TState | undefined>();
+    const scheduled = strategy(flush);
+    let isListeningForPageHide = false;
+
+    return {
+        enqueue,
+        flush,
+        discard,
+    };
+
+    function enqueue(owner: OwnerKey, state: TState | undefined) {
+        pending.set(owner, state);
+        flushOnPageHide();
+        scheduled.schedule();
+    }
+
+    /**
+     * Write that throws does not stop the rest, its error is rethrown once all are done
+     */
+    function flush(): TResult[] {
+        scheduled.cancel();
+        const writes = Array.from(pending);
+        pending.clear();
+        const results: TResult[] = [];
+        const errors: unknown[] = [];
+        for (const [owner, state] of writes) {
+            try {
+                results.push(write(owner, state));
+            } catch (error) {
+                errors.push(error);
+            }
+        }
+        if (errors.length > 1) throw new AggregateError(errors);
+        if (errors.length) throw errors[0];
+        return results;
+    }
+
+    function discard() {
+        scheduled.cancel();
+        pending.clear();
+    }
+
+    function flushOnPageHide() {
+        if (isListeningForPageHide || strategy === immediate) return;
+        if (typeof self !== "object" || !("addEventListener" in self)) return;
+        isListeningForPageHide = true;
+
+        // page might never be shown again, pending writes would be lost
+        self.addEventListener("pagehide", () => flush());
+        self.addEventListener("visibilitychange", () => {
+            if (document.visibilityState === "hidden") flush();
+        });
+    }
+}
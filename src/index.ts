@@ -1,7 +1,76 @@
-export type { Config, SyncSelector, SyncUpdate } from "./Config";
+export type {
+    AsyncConfig,
+    AsyncConfigCreationOptions,
+    Config,
+    ConfigCreationOptions,
+    SyncSelector,
+    SyncUpdate,
+} from "./Config";
+export { Codec } from "./Codec";
+export type { AsyncCodec, CodecContext } from "./Codec";
 export {
     createPersistenceEffects,
     createPersistenceEffectsImpl,
     resolveConfig,
 } from "./PersistenceEffects";
+export type { TransferOptions } from "./PersistenceEffects";
+export {
+    createAsyncPersistenceEffects,
+    createAsyncPersistenceEffectsImpl,
+    resolveAsyncConfig,
+} from "./AsyncPersistenceEffects";
+export { createPersistenceMiddleware } from "./PersistenceMiddleware";
+export type {
+    PersistenceEffectSet,
+    PersistenceMiddlewareOptions,
+} from "./PersistenceMiddleware";
+export type {
+    BackupDocument,
+    BackupRecord,
+    ImportMode,
+    ImportRejection,
+    ImportReport,
+} from "./Backup";
+export {
+    combineHydrationStatus,
+    hydrationActions,
+    hydrationStatusReducer,
+    hydrationStatusSlice,
+    selectHydrationStatus,
+} from "./HydrationStatus";
+export type {
+    HydrationActions,
+    HydrationSkipReason,
+    HydrationStatus,
+} from "./HydrationStatus";
+export * from "./CookieStorage";
+export * from "./FallbackStorage";
+export * from "./FaultInjection";
+export * from "./IndexedDBStorage";
+export * from "./MemoryStorage";
+export { Partition } from "./Partition";
+export type { PartitionKey } from "./Partition";
+export { storageTraceActions } from "./Inspection";
+export type {
+    RecordInspection,
+    RecordStatus,
+    StorageTraceAction,
+} from "./Inspection";
+export { LegacySource } from "./LegacySource";
+export { MigrationError } from "./Migration";
+export { verifyMigrations } from "./VerifyMigrations";
+export type {
+    MigrationFailure,
+    MigrationReport,
+    VersionReport,
+} from "./VerifyMigrations";
+export { hydrateFromRequest } from "./ServerHydration";
+export type { CookieSource } from "./ServerHydration";
+export { SchemaValidationError } from "./Validation";
+export type { StandardSchema, ValidationIssue, Validator } from "./Validation";
+export { CorruptedRecordError } from "./RecordFormat";
+export { createTaggedJson, taggedJson } from "./TaggedJson";
+export type { TaggedJson, TypeHandler } from "./TaggedJson";
 export * from "./WebStorage";
+export { WriteStrategy } from "./WriteStrategy";
+export type { Timers } from "./WriteStrategy";
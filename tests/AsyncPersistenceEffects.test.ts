@@ -0,0 +1,331 @@
+import {
+  configureStore,
+  createAction,
+  createListenerMiddleware,
+  createReducer,
+} from "@reduxjs/toolkit";
+import { describe, expect, it, mock } from "bun:test";
+import {
+  AsyncWebStorage,
+  Codec,
+  CodecContext,
+  WriteStrategy,
+  createIndexedDBStorage,
+  withAsyncFaults,
+} from "../src";
+import { Real } from "../src/Config";
+import { OwnerKey } from "../src/DiskSpace";
+import { createAsyncPersistenceEffects } from "../src/AsyncPersistenceEffects";
+
+describe("Async persistence effects spec", () => {
+  it("persists values between store instances", async () => {
+    const storage = createIndexedDBStorage({ indexedDB: fakeIndexedDB() });
+    {
+      const { store, setState, settled } = setup(storage, { count: 0 });
+      store.dispatch(setState({ count: 1 }));
+      store.dispatch(setState({ count: 2 }));
+      await settled();
+    }
+    {
+      const { store, effects } = setup(storage, { count: -1 });
+      await store.dispatch(effects.hydrate.asThunk);
+      expect(store.getState().test).toEqual({ count: 2 });
+    }
+  });
+
+  it("migrates from previous version", async () => {
+    const storage = createIndexedDBStorage({ indexedDB: fakeIndexedDB() });
+    {
+      const { store, setState, settled } = setup(storage, "init");
+      store.dispatch(setState("old"));
+      await settled();
+    }
+    {
+      const { store, effects } = setup(storage, "init", {
+        version: 1,
+        migrate: state => `${state} migrated`,
+      });
+      await effects.hydrate(store);
+      expect(store.getState().test).toEqual("old migrated");
+      const stored = await storage.getItem("aRzf3d7co0u-DISK:test:static");
+      expect(JSON.parse(stored!)).toMatchObject({
+        version: 1,
+        payload: `"old migrated"`,
+      });
+    }
+  });
+
+  it("hydrates migrated state when it cannot be written back", async () => {
+    const storage = createIndexedDBStorage({ indexedDB: fakeIndexedDB() });
+    {
+      const { store, setState, settled } = setup(storage, "init");
+      store.dispatch(setState("old"));
+      await settled();
+    }
+    const onError = mock();
+    const { store, effects } = setup(
+      withAsyncFaults(storage, { quota: true }),
+      "init",
+      {
+        version: 1,
+        migrate: state => `${state} migrated`,
+        errorPolicy: "reset",
+        onError,
+      }
+    );
+    await effects.hydrate(store);
+    expect(store.getState().test).toEqual("old migrated");
+    expect(onError).toHaveBeenCalledTimes(1);
+    const stored = await storage.getItem("aRzf3d7co0u-DISK:test:static");
+    expect(JSON.parse(stored!)).toMatchObject({ version: 0 });
+  });
+
+  it("removes data from all owners when purge effect is triggered", async () => {
+    let owner: OwnerKey;
+    const storage = createIndexedDBStorage({ indexedDB: fakeIndexedDB() });
+    await storage.setItem("unrelated", "must stay");
+
+    const { store, setState, effects, settled } = setup(storage, "init", {
+      select: store => ({ owner: owner, state: store.test }),
+    });
+
+    owner = "A";
+    store.dispatch(setState("belongs to A"));
+    owner = "B";
+    store.dispatch(setState("belongs to B"));
+    await settled();
+    expect(await storage.getAllKeys()).toEqual([
+      "unrelated",
+      "aRzf3d7co0u-DISK:test:A",
+      "aRzf3d7co0u-DISK:test:B",
+    ]);
+
+    await store.dispatch(effects.purge.asThunk);
+    expect(await storage.getAllKeys()).toEqual(["unrelated"]);
+  });
+
+  it("transfers state to another owner", async () => {
+    let owner: OwnerKey = "guest";
+    const storage = createIndexedDBStorage({ indexedDB: fakeIndexedDB() });
+    const { store, setState, effects, settled } = setup(storage, "init", {
+      select: store => ({ owner: owner, state: store.test }),
+    });
+    store.dispatch(setState("guest draft"));
+    await settled();
+
+    owner = "alice";
+    await store.dispatch(
+      effects.transferOwner("guest", "alice", {
+        merge: (source, target) => `${target}, ${source}`,
+      }).asThunk
+    );
+    expect(store.getState().test).toEqual("guest draft");
+    expect(await storage.getAllKeys()).toEqual(["aRzf3d7co0u-DISK:test:alice"]);
+
+    await store.dispatch(
+      effects.transferOwner("alice", "alice", {
+        merge: (source, target) => `${target}, ${source}`,
+      }).asThunk
+    );
+    expect(await storage.getAllKeys()).toEqual(["aRzf3d7co0u-DISK:test:alice"]);
+  });
+
+  it("reports deferred write that failed and writes it again on next update", async () => {
+    const manual: WriteStrategy = () => ({ schedule() {}, cancel() {} });
+    const onError = mock();
+    let isFull = true;
+    const storage = createIndexedDBStorage({ indexedDB: fakeIndexedDB() });
+    const { store, setState, effects, settled } = setup(
+      withAsyncFaults(storage, { quota: () => isFull }),
+      "init",
+      { writeStrategy: manual, onError }
+    );
+
+    store.dispatch(setState("new state"));
+    await settled();
+    await store.dispatch(effects.flush.asThunk);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(await storage.getAllKeys()).toEqual([]);
+
+    isFull = false;
+    store.dispatch({ type: "unrelated" });
+    await settled();
+    await store.dispatch(effects.flush.asThunk);
+    expect(await storage.getAllKeys()).toEqual([
+      "aRzf3d7co0u-DISK:test:static",
+    ]);
+  });
+
+  it("shares a database between storages of different store names", async () => {
+    const indexedDB = fakeIndexedDB();
+    const drafts = createIndexedDBStorage({ indexedDB, storeName: "drafts" });
+    const inbox = createIndexedDBStorage({ indexedDB, storeName: "inbox" });
+
+    await drafts.setItem("key", "draft");
+    await inbox.setItem("key", "message");
+    expect(await drafts.getItem("key")).toEqual("draft");
+    expect(await inbox.getItem("key")).toEqual("message");
+  });
+
+  it("compresses and encrypts records with a key of each owner", async () => {
+    let owner: OwnerKey;
+    const keys = new Map<OwnerKey, Promise<CryptoKey>>();
+    const getKey = ({ owner }: CodecContext) => {
+      if (!keys.has(owner)) {
+        const key = crypto.subtle.generateKey(
+          { name: "AES-GCM", length: 256 },
+          false,
+          ["encrypt", "decrypt"]
+        );
+        keys.set(owner, key as Promise<CryptoKey>);
+      }
+      return keys.get(owner)!;
+    };
+    const storage = createIndexedDBStorage({ indexedDB: fakeIndexedDB() });
+    const config = {
+      codecs: [Codec.deflate, Codec.aesGcm(getKey)],
+      select: ({ test }: { test: string }) => ({ owner: owner, state: test }),
+    };
+    {
+      const { store, setState, settled } = setup(storage, "init", config);
+      owner = "A";
+      store.dispatch(setState("secret of A"));
+      owner = "B";
+      store.dispatch(setState("secret of B"));
+      await settled();
+    }
+    const stored = await storage.getItem("aRzf3d7co0u-DISK:test:A");
+    expect(stored).not.toContain("secret");
+    expect(JSON.parse(stored!)).toHaveProperty("codec", "deflate,aes-gcm");
+    {
+      const { store, effects } = setup(storage, "init", config);
+      owner = "A";
+      await effects.hydrate(store);
+      expect(store.getState().test).toEqual("secret of A");
+      owner = "B";
+      await effects.hydrate(store);
+      expect(store.getState().test).toEqual("secret of B");
+    }
+  });
+});
+
+function setup<T extends Real>(
+  storage: AsyncWebStorage,
+  initialState: T,
+  {
+    select: select = ({ test }) => ({ owner: "static", state: test }),
+    ...config
+  } = {} as Partial<
+    Pick<
+      Parameters<typeof createAsyncPersistenceEffects<T, { test: T }>>[2],
+      "select" | "codecs" | "writeStrategy" | "onError" | "errorPolicy"
+    > & { migrate: (state: any) => T; version: number }
+  >
+) {
+  const setState = createAction("setState", (state: T) => ({ payload: state }));
+
+  const hydratableReducer = createReducer(initialState, ({ addCase }) => {
+    addCase(setState, (_, action) => action.payload);
+  });
+
+  const effects = createAsyncPersistenceEffects("test", storage, {
+    codecs: config.codecs,
+    writeStrategy: config.writeStrategy,
+    onError: config.onError,
+    errorPolicy: config.errorPolicy,
+    actualize: {
+      migrate: config.migrate ?? (state => state as T),
+      version: config.version ?? 0,
+    },
+    select,
+    hydrate: setState,
+  });
+
+  const pending = new Set<Promise<void>>();
+  const listeners = createListenerMiddleware<{ test: T }>();
+  listeners.startListening({
+    predicate: () => true,
+    effect: (action, api) => {
+      pending.add(effects.update.asListener(action, api));
+    },
+  });
+
+  const store = configureStore({
+    reducer: { test: hydratableReducer },
+    middleware: getDM =>
+      getDM({ serializableCheck: false }).concat(listeners.middleware),
+  });
+
+  const settled = () => Promise.all(pending);
+
+  return { store, effects, setState, settled };
+}
+
+/**
+ * Just enough of IndexedDB to run the adapter: stores of a single database, requests settle in a microtask
+ */
+function fakeIndexedDB(): IDBFactory {
+  const stores = new Map<string, Map<IDBValidKey, unknown>>();
+  let version = 0;
+
+  const request = <T>(
+    compute: () => T,
+    onDone?: () => void
+  ): IDBRequest<T> => {
+    const req = {} as { -readonly [K in keyof IDBRequest<T>]: IDBRequest<T>[K] };
+    queueMicrotask(() => {
+      req.result = compute();
+      req.onsuccess?.call(req as IDBRequest<T>, new Event("success"));
+      onDone?.();
+    });
+    return req as IDBRequest<T>;
+  };
+
+  const database = {
+    transaction(storeName: string) {
+      const transaction = {} as IDBTransaction;
+      const complete = () =>
+        transaction.oncomplete?.call(transaction, new Event("complete"));
+      const records = stores.get(storeName);
+      if (!records) {
+        throw new DOMException(`No ${storeName} store`, "NotFoundError");
+      }
+      transaction.objectStore = () =>
+        ({
+          get: (key: IDBValidKey) => request(() => records.get(key), complete),
+          put: (value: unknown, key: IDBValidKey) =>
+            request(() => void records.set(key, value), complete),
+          delete: (key: IDBValidKey) =>
+            request(() => void records.delete(key), complete),
+          getAllKeys: () => request(() => [...records.keys()], complete),
+        }) as unknown as IDBObjectStore;
+      return transaction;
+    },
+    createObjectStore(storeName: string) {
+      stores.set(storeName, new Map());
+    },
+    objectStoreNames: {
+      contains: (storeName: string) => stores.has(storeName),
+    },
+    get version() {
+      return version;
+    },
+    close() {},
+  };
+
+  return {
+    open(_name: string, requested = Math.max(version, 1)) {
+      const openRequest: IDBOpenDBRequest = request(() => {
+        if (requested > version) {
+          version = requested;
+          (openRequest as { result: unknown }).result = database;
+          openRequest.onupgradeneeded?.(
+            new Event("upgradeneeded") as IDBVersionChangeEvent
+          );
+        }
+        return database;
+      }) as unknown as IDBOpenDBRequest;
+      return openRequest;
+    },
+  } as unknown as IDBFactory;
+}
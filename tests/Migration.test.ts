@@ -1,6 +1,8 @@
 import { Type, TypeOf, number, string, type } from "io-ts";
 import { describe, expect, it, mock } from "bun:test";
 import { MigrationError, buildMigration } from "../src/Migration";
+import { StandardSchema } from "../src/Validation";
+import { verifyMigrations } from "../src/VerifyMigrations";
 
 describe("buildMigrations()", () => {
   it("must automatically increment version number", () => {
@@ -31,13 +33,132 @@ describe("buildMigrations()", () => {
     }
   });
 
+  it("must downgrade to older versions for as long as they define it", () => {
+    const reversible = buildMigration<v3>((_) =>
+      _.currentVersion(mustBe(v3))
+        .olderVersion(
+          mustBe(v2),
+          (v1) => ({ baz: String(v1.bar) }),
+          (v2) => ({ bar: Number(v2.baz) }),
+        )
+        .olderVersion(mustBe(v1), (v0) => ({ bar: Number(v0.foo) })),
+    );
+    expect(reversible.downgrade!({ baz: "123" })).toEqual([
+      { version: 2, data: { bar: 123 } },
+    ]);
+    expect(setupV3().downgrade!({ baz: "123" })).toEqual([]);
+  });
+
   it("wraps error thrown during migration in MigrationError", () => {
     const v3 = setupV3();
     const spy = mock(() => v3.migrate({ foo: 321 }, 1));
     expect(spy).toThrowError(MigrationError);
   });
+
+  it("accepts io-ts codecs and attaches their issues to MigrationError", () => {
+    const migration = buildMigration<v2>((_) =>
+      _.currentVersion(v2).olderVersion(v1, (v0) => ({ bar: Number(v0.foo) })),
+    );
+    expect(migration.migrate({ foo: "123" }, 1)).toEqual({ bar: 123 });
+
+    const error = catchError(() => migration.migrate({ foo: 321 }, 1));
+    expect(error).toBeInstanceOf(MigrationError);
+    expect((error as MigrationError).issues).toEqual([
+      { path: ["foo"], message: "Expected string" },
+    ]);
+  });
+
+  it("accepts Standard Schema validators", () => {
+    const positive: StandardSchema<number> = {
+      "~standard": {
+        version: 1,
+        vendor: "test",
+        validate: (value) =>
+          typeof value === "number" && value > 0
+            ? { value }
+            : { issues: [{ message: "must be positive", path: [{ key: 0 }] }] },
+      },
+    };
+    const migration = buildMigration<number>((_) => _.currentVersion(positive));
+    expect(migration.migrate(1, 1)).toBe(1);
+
+    const error = catchError(() => migration.migrate(-1, 1));
+    expect(error).toBeInstanceOf(MigrationError);
+    expect((error as MigrationError).issues).toEqual([
+      { path: [0], message: "must be positive" },
+    ]);
+  });
+
+  it("prefers Standard Schema of a callable validator", () => {
+    const positive = Object.assign(
+      (value: unknown) =>
+        typeof value === "number" && value > 0 ? value : "must be positive",
+      {
+        "~standard": {
+          version: 1,
+          vendor: "callable",
+          validate: (value: unknown) =>
+            typeof value === "number" && value > 0
+              ? { value }
+              : { issues: [{ message: "must be positive" }] },
+        },
+      } as const,
+    ) as StandardSchema<number>;
+    const migration = buildMigration<number>((_) => _.currentVersion(positive));
+    expect(migration.migrate(1, 1)).toBe(1);
+
+    const error = catchError(() => migration.migrate(-1, 1));
+    expect(error).toBeInstanceOf(MigrationError);
+    expect((error as MigrationError).issues).toEqual([
+      { path: [], message: "must be positive" },
+    ]);
+  });
 });
 
+describe("verifyMigrations()", () => {
+  it("reports failures of every version", () => {
+    const report = verifyMigrations(setupV3(), {
+      1: [{ foo: "1" }, { foo: 2 }],
+      2: [{ bar: 2 }],
+      4: [{ baz: "from the future" }],
+    });
+
+    expect(report.ok).toBe(false);
+    expect(report.versions.map(({ failures }) => failures.length)).toEqual([
+      1, 0, 1,
+    ]);
+    expect(report.toString()).toMatchInlineSnapshot(`
+      "Migrations to version 3:
+        v1: 1 of 2 failed
+          #1: Migration from 1 to 3 failed. Persisted {"foo":"number"}
+            shape: {"foo":"number"}
+        v2: ok (1)
+        v4: 1 of 1 failed
+          #0: Version 4 is newer than current 3, data would be reset
+            shape: {"baz":"string"}"
+    `);
+  });
+
+  it("passes when every fixture migrates", () => {
+    const report = verifyMigrations<v2>(
+      (_) =>
+        _.currentVersion(v2).olderVersion(v1, (v0) => ({
+          bar: Number(v0.foo),
+        })),
+      { 1: [{ foo: "1" }], 2: [{ bar: 1 }] },
+    );
+    expect(report.ok).toBe(true);
+  });
+});
+
+function catchError(fn: () => unknown) {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+}
+
 const v1 = type({ foo: string });
 type v1 = TypeOf<typeof v1>;
 
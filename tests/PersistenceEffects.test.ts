@@ -4,39 +4,57 @@ import {
   createListenerMiddleware,
   createReducer,
 } from "@reduxjs/toolkit";
-import { afterEach, describe, expect, it, mock } from "bun:test";
-import { Config, SyncSelector } from "../src";
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  setSystemTime,
+  spyOn,
+} from "bun:test";
+import {
+  Codec,
+  Config,
+  CorruptedRecordError,
+  Faults,
+  LegacySource,
+  Partition,
+  SyncSelector,
+  Timers,
+  WebStorage,
+  WriteStrategy,
+  createCookieStorage,
+  createMemoryStorage,
+  createPersistenceMiddleware,
+  fallbackStorage,
+  hydrationActions,
+  local,
+  memory,
+  hydrateFromRequest,
+  hydrationStatusReducer,
+  selectHydrationStatus,
+  storageTraceActions,
+  taggedJson,
+  withFaults,
+} from "../src";
 import { Real } from "../src/Config";
 import { OwnerKey } from "../src/DiskSpace";
+import { VersioningConfigBuilder, buildMigration } from "../src/Migration";
 import { createPersistenceEffects } from "../src/PersistenceEffects";
 
-let _memory: Record<string, string> = {};
-const mockStorage: Storage = {
-  clear() {
-    _memory = {};
-  },
-  getItem(key) {
-    return _memory[key];
-  },
-  setItem(key, value) {
-    _memory[key] = value;
-  },
-  key(idx) {
-    throw Object.keys(_memory)[idx];
-  },
-  removeItem(key) {
-    delete _memory[key];
-  },
-  get length() {
-    return Object.keys(_memory).length;
-  },
-};
+const mockStorage = createMemoryStorage();
+beforeEach(() => {
+  setSystemTime(new Date("2025-01-01T00:00:00Z"));
+});
 afterEach(() => {
   mockStorage.clear();
+  setSystemTime();
 });
 
 function dumpStorage() {
-  return { ..._memory };
+  return mockStorage.dump();
 }
 
 describe("Persistence effects spec", () => {
@@ -116,6 +134,91 @@ describe("Persistence effects spec", () => {
     expect(store.getState()).not.toEqual(badMigration);
   });
 
+  it("reads records of a newer version after rollback without losing them", () => {
+    type V1 = { theme: string };
+    type V2 = V1 & { fontSize: number };
+    const v1 = versioning<V1>(_ => _.currentVersion(state => state as V1));
+    const v2 = versioning<V2>(_ =>
+      _.currentVersion(state => state as V2).olderVersion(
+        state => state as V1,
+        older => ({ ...older, fontSize: 12 }),
+        ({ theme }) => ({ theme })
+      )
+    );
+    const record = () =>
+      JSON.parse(mockStorage.getItem("aRzf3d7co0u-DISK:test:static")!);
+    {
+      const { store, setState } = setup({ theme: "", fontSize: 0 }, v2);
+      store.dispatch(setState({ theme: "dark", fontSize: 16 }));
+      expect(record().downgrades).toEqual({ 1: `{"theme":"dark"}` });
+    }
+    {
+      const { store, effects, setState } = setup({ theme: "" }, v1);
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual({ theme: "dark" });
+
+      store.dispatch(setState({ theme: "light" }));
+      expect(record()).toMatchObject({
+        version: 1,
+        payload: `{"theme":"light"}`,
+        latest: { version: 2, payload: `{"theme":"dark","fontSize":16}` },
+      });
+    }
+    {
+      const { store, effects } = setup({ theme: "", fontSize: 0 }, v2);
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual({ theme: "dark", fontSize: 16 });
+    }
+  });
+
+  it("imports state of redux-persist and removes it from there", () => {
+    mockStorage.setItem(
+      "persist:root",
+      JSON.stringify({
+        preferences: JSON.stringify({ darkMode: true }),
+        session: JSON.stringify({ token: "secret" }),
+        _persist: JSON.stringify({ version: -1, rehydrated: true }),
+      })
+    );
+    const { store, effects } = setup("init", {
+      namespace: "app",
+      legacySources: [
+        LegacySource.reduxPersist({
+          key: "root",
+          slice: "preferences",
+          version: 0,
+        }),
+      ],
+      version: 1,
+      migrate: (state: any) => (state.darkMode ? "dark" : "light"),
+    });
+    effects.hydrate(store);
+
+    expect(store.getState().test).toEqual("dark");
+    expect(dumpStorage()).toMatchInlineSnapshot(`
+      {
+        "app:test:static": "{"format":1,"version":1,"savedAt":1735689600000,"payload":"\\"dark\\""}",
+        "persist:root": "{"session":"{\\"token\\":\\"secret\\"}","_persist":"{\\"version\\":-1,\\"rehydrated\\":true}"}",
+      }
+    `);
+  });
+
+  it("imports raw legacy keys only when owner has no record", () => {
+    mockStorage.setItem("old-theme", `"light"`);
+    const legacySources = [LegacySource.raw({ key: "old-theme", version: 0 })];
+    {
+      const { store, effects } = setup("init", { legacySources });
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual("light");
+      expect(mockStorage.getItem("old-theme")).toBeNull();
+    }
+
+    mockStorage.setItem("old-theme", `"stale"`);
+    const { store, effects } = setup("init", { legacySources });
+    effects.hydrate(store);
+    expect(store.getState().test).toEqual("light");
+  });
+
   it("can persist non-serializable data", () => {
     const myJSON = {
       stringify: value =>
@@ -143,6 +246,78 @@ describe("Persistence effects spec", () => {
     expect(store.getState()).toEqual(persistedState);
   });
 
+  it("persists dates, maps, sets and bigints with taggedJson", () => {
+    const state = {
+      updatedAt: new Date("2025-01-01T00:00:00Z"),
+      visits: new Map([["home", new Set([1n, 2n])]]),
+    };
+    {
+      const { store, setState } = setup({}, { json: taggedJson });
+      store.dispatch(setState(state));
+    }
+    const { store, effects } = setup({}, { json: taggedJson });
+    effects.hydrate(store);
+    expect(store.getState().test).toEqual(state);
+  });
+
+  it("writes only partitions that changed", () => {
+    type Fruits = Record<string, { name: string }>;
+    const partition = Partition.byField<Fruits>();
+    const apple = { name: "apple" };
+    {
+      const { store, setState } = setup<Fruits>({}, { partition });
+      store.dispatch(setState({ apple, pear: { name: "pear" } }));
+
+      const setItem = spyOn(mockStorage, "setItem");
+      store.dispatch(setState({ apple, pear: { name: "ripe pear" } }));
+      expect(setItem.mock.calls.map(([key]) => key)).toMatchInlineSnapshot(`
+        [
+          "aRzf3d7co0u-DISK:test!partition:pear:1vgcpiy:static",
+          "aRzf3d7co0u-DISK:test:static",
+        ]
+      `);
+      setItem.mockRestore();
+
+      store.dispatch(setState({ apple }));
+      expect(Object.keys(dumpStorage())).toMatchInlineSnapshot(`
+        [
+          "aRzf3d7co0u-DISK:test!partition:apple:fqvbu4:static",
+          "aRzf3d7co0u-DISK:test:static",
+        ]
+      `);
+    }
+    const { store, effects } = setup<Fruits>({}, { partition });
+    effects.hydrate(store);
+    expect(store.getState().test).toEqual({ apple });
+
+    mockStorage.removeItem(
+      "aRzf3d7co0u-DISK:test!partition:apple:fqvbu4:static"
+    );
+    expect(() => effects.hydrate(store)).toThrow(CorruptedRecordError);
+
+    store.dispatch(effects.purge.asThunk);
+    expect(dumpStorage()).toEqual({});
+  });
+
+  it("removes partitions once partitioning is turned off", () => {
+    type Fruits = Record<string, { name: string }>;
+    const fruits = { apple: { name: "apple" }, pear: { name: "pear" } };
+    {
+      const partition = Partition.byField<Fruits>();
+      const { store, setState } = setup<Fruits>({}, { partition });
+      store.dispatch(setState(fruits));
+      expect(Object.keys(dumpStorage())).toHaveLength(3);
+    }
+    const { store, setState, effects } = setup<Fruits>({});
+    effects.hydrate(store);
+    expect(store.getState().test).toEqual(fruits);
+
+    store.dispatch(setState({ ...fruits }));
+    expect(Object.keys(dumpStorage())).toEqual([
+      "aRzf3d7co0u-DISK:test:static",
+    ]);
+  });
+
   it("should store data from multiple owners and allow owner change without data loss", () => {
     let owner: OwnerKey; // normally instead of using mutable variable we would select owner from store, this is just for a test
 
@@ -165,6 +340,95 @@ describe("Persistence effects spec", () => {
     expect(store.getState().test).toEqual("belongs to B");
   });
 
+  it("tracks changes per owner", () => {
+    let owner: OwnerKey = "A";
+    const { store, setState } = setup(
+      { theme: "dark" },
+      { select: store => ({ owner, state: store.test }), compare: isEqual }
+    );
+    store.dispatch(setState({ theme: "light" }));
+
+    owner = "B";
+    store.dispatch(setState({ theme: "light" }));
+    expect(Object.keys(dumpStorage())).toContain("aRzf3d7co0u-DISK:test:B");
+  });
+
+  it("hydrates new owner before writing when `rehydrateOnOwnerChange` is on", () => {
+    let owner: OwnerKey | undefined = "A";
+    const select: SyncSelector<string, { test: string }> = store =>
+      owner ? { owner, state: store.test } : { skipSync: true };
+    {
+      const { store, setState } = setup("init", { select });
+      store.dispatch(setState("belongs to A"));
+    }
+
+    owner = "B";
+    const { store, setState } = setup("init", {
+      select,
+      rehydrateOnOwnerChange: true,
+    });
+    store.dispatch(setState("belongs to B"));
+
+    owner = "A";
+    store.dispatch(setState("initial state after switch"));
+    expect(store.getState().test).toEqual("belongs to A");
+
+    owner = undefined;
+    store.dispatch(setState("logged out"));
+    owner = "B";
+    store.dispatch(setState("logged in"));
+    expect(store.getState().test).toEqual("belongs to B");
+
+    expect(dumpStorage()).toMatchInlineSnapshot(`
+      {
+        "aRzf3d7co0u-DISK:test:A": "{"format":1,"version":0,"savedAt":1735689600000,"payload":"\\"belongs to A\\""}",
+        "aRzf3d7co0u-DISK:test:B": "{"format":1,"version":0,"savedAt":1735689600000,"payload":"\\"belongs to B\\""}",
+      }
+    `);
+  });
+
+  it("transfers state to another owner merging it with the existing one", () => {
+    let owner: OwnerKey = "alice";
+    const select: SyncSelector<string[], { test: string[] }> = store => ({
+      owner,
+      state: store.test,
+    });
+    {
+      const { store, setState } = setup<string[]>([], { select });
+      store.dispatch(setState(["alice"]));
+      owner = "guest";
+      store.dispatch(setState(["guest"]));
+    }
+
+    owner = "alice";
+    const { store, effects } = setup<string[]>([], {
+      select,
+      version: 1,
+      migrate: (state: any) => [...state, "v1"],
+    });
+    const merge = mock((source: string[], target: string[]) => [
+      ...target,
+      ...source,
+    ]);
+    store.dispatch(effects.transferOwner("guest", "alice", { merge }).asThunk);
+
+    expect(merge).toHaveBeenCalledWith(["guest", "v1"], ["alice", "v1"]);
+    expect(store.getState().test).toEqual(["alice", "v1", "guest", "v1"]);
+    expect(dumpStorage()).toMatchInlineSnapshot(`
+      {
+        "aRzf3d7co0u-DISK:test:alice": "{"format":1,"version":1,"savedAt":1735689600000,"payload":"[\\"alice\\",\\"v1\\",\\"guest\\",\\"v1\\"]"}",
+      }
+    `);
+
+    store.dispatch(effects.transferOwner("guest", "bob", { merge }).asThunk);
+    expect(merge).toHaveBeenCalledTimes(1);
+    expect(Object.keys(dumpStorage())).toEqual(["aRzf3d7co0u-DISK:test:alice"]);
+
+    store.dispatch(effects.transferOwner("alice", "alice", { merge }).asThunk);
+    expect(merge).toHaveBeenCalledTimes(1);
+    expect(Object.keys(dumpStorage())).toEqual(["aRzf3d7co0u-DISK:test:alice"]);
+  });
+
   it("stores data only if `skipSync` is not true", () => {
     const initialState = { isValid: true, message: "" };
     type state = typeof initialState;
@@ -202,13 +466,125 @@ describe("Persistence effects spec", () => {
     store.dispatch(setState("new state 2"));
     expect(dumpStorage()).toMatchInlineSnapshot(`
           {
-            "aRzf3d7co0u-DISK:test:static": "0|"new state 2"",
+            "aRzf3d7co0u-DISK:test:static": "{"format":1,"version":0,"savedAt":1735689600000,"payload":"\\"new state 2\\""}",
           }
         `);
     store.dispatch(setState(MAGIC_STRING));
     expect(dumpStorage()).toMatchInlineSnapshot(`{}`);
   });
 
+  it("resolves conflicts with records written by another tab", () => {
+    const resolveConflict = mock((local: string[], stored: string[]) =>
+      Array.from(new Set([...stored, ...local]))
+    );
+    const tabA = setup<string[]>([], { resolveConflict });
+    const tabB = setup<string[]>([], { resolveConflict });
+    tabA.effects.hydrate(tabA.store);
+    tabB.effects.hydrate(tabB.store);
+
+    tabA.store.dispatch(tabA.setState(["milk"]));
+    expect(resolveConflict).not.toHaveBeenCalled();
+
+    tabB.store.dispatch(tabB.setState(["bread"]));
+    expect(resolveConflict).toHaveBeenLastCalledWith(["bread"], ["milk"]);
+    expect(tabB.store.getState().test).toEqual(["milk", "bread"]);
+
+    tabA.store.dispatch(tabA.setState(["milk", "eggs"]));
+    expect(tabA.store.getState().test).toEqual(["milk", "bread", "eggs"]);
+    expect(resolveConflict).toHaveBeenCalledTimes(2);
+
+    const tabC = setup<string[]>([]);
+    tabC.effects.hydrate(tabC.store);
+    expect(tabC.store.getState().test).toEqual(["milk", "bread", "eggs"]);
+  });
+
+  it("does not resolve conflicts with records hydrated by watch", () => {
+    const resolveConflict = mock((local: string[], stored: string[]) =>
+      Array.from(new Set([...stored, ...local]))
+    );
+    const tabA = setup<string[]>([], { resolveConflict });
+    const tabB = setup<string[]>([], { resolveConflict });
+    tabA.effects.hydrate(tabA.store);
+    tabB.effects.hydrate(tabB.store);
+    const stopWatching = tabB.effects.watch(tabB.store);
+
+    tabA.store.dispatch(tabA.setState(["milk"]));
+    const key = "aRzf3d7co0u-DISK:test:static";
+    dispatchEvent(
+      Object.assign(new Event("storage"), {
+        key,
+        newValue: mockStorage.getItem(key),
+        storageArea: mockStorage,
+      })
+    );
+    expect(tabB.store.getState().test).toEqual(["milk"]);
+
+    tabB.store.dispatch(tabB.setState([]));
+    expect(resolveConflict).not.toHaveBeenCalled();
+    expect(JSON.parse(mockStorage.getItem(key)!)).toHaveProperty(
+      "payload",
+      "[]"
+    );
+    stopWatching();
+  });
+
+  it("reports records of another tab that cannot be read", () => {
+    const onError = mock();
+    const { store, effects } = setup("init", { onError });
+    const stopWatching = effects.watch(store);
+
+    dispatchEvent(
+      Object.assign(new Event("storage"), {
+        key: "aRzf3d7co0u-DISK:test:static",
+        newValue: `{"format":1,"version":0,"codec":"from-newer-build","payload":""}`,
+        storageArea: mockStorage,
+      })
+    );
+    expect(onError).toHaveBeenCalledWith(expect.any(CorruptedRecordError));
+    expect(store.getState().test).toEqual("init");
+    stopWatching();
+  });
+
+  it("hydrates changes made by another tab without writing them back", () => {
+    const tabA = setup("init");
+    const tabB = setup("init");
+    const stopWatching = tabB.effects.watch(tabB.store);
+
+    tabA.store.dispatch(tabA.setState("written by A"));
+    const key = "aRzf3d7co0u-DISK:test:static";
+    const setItem = spyOn(mockStorage, "setItem");
+    // storage event is only fired in other tabs, mock storage does not emit it
+    dispatchEvent(
+      Object.assign(new Event("storage"), {
+        key,
+        newValue: mockStorage.getItem(key),
+        storageArea: mockStorage,
+      })
+    );
+    expect(tabB.store.getState().test).toEqual("written by A");
+
+    dispatchEvent(
+      Object.assign(new Event("storage"), {
+        key,
+        newValue: `0|"written to another storage"`,
+        storageArea: createMemoryStorage(),
+      })
+    );
+    expect(tabB.store.getState().test).toEqual("written by A");
+    expect(setItem).not.toHaveBeenCalled();
+    setItem.mockRestore();
+
+    stopWatching();
+    dispatchEvent(
+      Object.assign(new Event("storage"), {
+        key,
+        newValue: `0|"ignored"`,
+        storageArea: mockStorage,
+      })
+    );
+    expect(tabB.store.getState().test).toEqual("written by A");
+  });
+
   it("removes data from all owners when purge effect is triggered", () => {
     let owner: OwnerKey; // normally instead of using mutable variable we would select owner from store, this is just for a test
 
@@ -223,23 +599,1059 @@ describe("Persistence effects spec", () => {
     store.dispatch(setState("belongs to B"));
     expect(dumpStorage()).toMatchInlineSnapshot(`
           {
-            "aRzf3d7co0u-DISK:test:A": "0|"belongs to A"",
-            "aRzf3d7co0u-DISK:test:B": "0|"belongs to B"",
+            "aRzf3d7co0u-DISK:test:A": "{"format":1,"version":0,"savedAt":1735689600000,"payload":"\\"belongs to A\\""}",
+            "aRzf3d7co0u-DISK:test:B": "{"format":1,"version":0,"savedAt":1735689600000,"payload":"\\"belongs to B\\""}",
           }
         `);
     store.dispatch(effects.purge.asThunk);
     expect(dumpStorage()).toMatchInlineSnapshot(`{}`);
   });
+
+  it("lists owners and purges them when storage cannot enumerate its keys", () => {
+    setSystemTime(1000);
+    let owner: OwnerKey;
+    const { getItem, setItem, removeItem } = mockStorage;
+    const storage = { getItem, setItem, removeItem };
+
+    const { store, setState, effects } = setup("init", {
+      storage,
+      select: store => ({ owner: owner, state: store.test }),
+    });
+
+    owner = "A";
+    store.dispatch(setState("belongs to A"));
+    owner = "B";
+    store.dispatch(setState("belongs to B"));
+    expect(effects.listOwners()).toEqual(["A", "B"]);
+    expect(dumpStorage()).toMatchInlineSnapshot(`
+      {
+        "aRzf3d7co0u-DISK:test": "{"A":1000,"B":1000}",
+        "aRzf3d7co0u-DISK:test:A": "{"format":1,"version":0,"savedAt":1000,"payload":"\\"belongs to A\\""}",
+        "aRzf3d7co0u-DISK:test:B": "{"format":1,"version":0,"savedAt":1000,"payload":"\\"belongs to B\\""}",
+      }
+    `);
+
+    store.dispatch(effects.purge.asThunk);
+    expect(effects.listOwners()).toEqual([]);
+    expect(dumpStorage()).toMatchInlineSnapshot(`{}`);
+  });
+
+  it("coalesces deferred writes per owner until they are flushed", () => {
+    let owner: OwnerKey;
+    const manual: WriteStrategy = () => ({ schedule() {}, cancel() {} });
+
+    const { store, setState, effects } = setup("init", {
+      writeStrategy: manual,
+      select: store => ({ owner: owner, state: store.test }),
+    });
+
+    owner = "A";
+    store.dispatch(setState("first of A"));
+    store.dispatch(setState("latest of A"));
+    owner = "B";
+    store.dispatch(setState("latest of B"));
+    expect(dumpStorage()).toMatchInlineSnapshot(`{}`);
+
+    store.dispatch(effects.flush.asThunk);
+    expect(dumpStorage()).toMatchInlineSnapshot(`
+      {
+        "aRzf3d7co0u-DISK:test:A": "{"format":1,"version":0,"savedAt":1735689600000,"payload":"\\"latest of A\\""}",
+        "aRzf3d7co0u-DISK:test:B": "{"format":1,"version":0,"savedAt":1735689600000,"payload":"\\"latest of B\\""}",
+      }
+    `);
+
+    store.dispatch(setState("discarded by purge"));
+    store.dispatch(effects.purge.asThunk);
+    store.dispatch(effects.flush.asThunk);
+    expect(dumpStorage()).toMatchInlineSnapshot(`{}`);
+  });
+
+  it("writes once updates settle with debounce strategy", () => {
+    const { timers, advance } = createFakeTimers();
+    const { store, setState } = setup("init", {
+      writeStrategy: WriteStrategy.debounce(5, timers),
+    });
+    store.dispatch(setState("new state 1"));
+    advance(4);
+    store.dispatch(setState("new state 2"));
+    advance(4);
+    expect(dumpStorage()).toMatchInlineSnapshot(`{}`);
+
+    advance(1);
+    expect(dumpStorage()).toMatchInlineSnapshot(`
+      {
+        "aRzf3d7co0u-DISK:test:static": "{"format":1,"version":0,"savedAt":1735689600000,"payload":"\\"new state 2\\""}",
+      }
+    `);
+  });
+
+  it("writes at most once per period with throttle strategy", () => {
+    const { timers, advance } = createFakeTimers();
+    const { store, setState } = setup("init", {
+      writeStrategy: WriteStrategy.throttle(10, timers),
+    });
+    const stored = () => mockStorage.getItem("aRzf3d7co0u-DISK:test:static");
+
+    store.dispatch(setState("new state 1"));
+    expect(stored()).toContain("new state 1");
+
+    advance(5);
+    store.dispatch(setState("new state 2"));
+    store.dispatch(setState("new state 3"));
+    expect(stored()).toContain("new state 1");
+
+    advance(5);
+    expect(stored()).toContain("new state 3");
+  });
+
+  it("writes when idle with idle strategy, or after a timeout without idle callbacks", () => {
+    const idle = createFakeTimers({ idle: true });
+    const withIdle = setup("init", {
+      writeStrategy: WriteStrategy.idle(idle.timers),
+      select: store => ({ owner: "A", state: store.test }),
+    });
+    const noIdle = createFakeTimers();
+    const withoutIdle = setup("init", {
+      writeStrategy: WriteStrategy.idle(noIdle.timers),
+      select: store => ({ owner: "B", state: store.test }),
+    });
+
+    withIdle.store.dispatch(withIdle.setState("belongs to A"));
+    withoutIdle.store.dispatch(withoutIdle.setState("belongs to B"));
+    noIdle.runIdle();
+    idle.advance(0);
+    expect(dumpStorage()).toMatchInlineSnapshot(`{}`);
+
+    idle.runIdle();
+    noIdle.advance(0);
+    expect(Object.keys(dumpStorage())).toEqual([
+      "aRzf3d7co0u-DISK:test:A",
+      "aRzf3d7co0u-DISK:test:B",
+    ]);
+  });
+
+  it("flushes deferred writes when page gets hidden", () => {
+    const { timers } = createFakeTimers();
+    const { store, setState } = setup("init", {
+      writeStrategy: WriteStrategy.debounce(1000, timers),
+    });
+    store.dispatch(setState("new state"));
+    expect(dumpStorage()).toMatchInlineSnapshot(`{}`);
+
+    dispatchEvent(new Event("pagehide"));
+    expect(Object.keys(dumpStorage())).toEqual([
+      "aRzf3d7co0u-DISK:test:static",
+    ]);
+  });
+
+  it("writes other owners when state of one cannot be serialized", () => {
+    let owner: OwnerKey;
+    const { timers, advance } = createFakeTimers();
+    const onError = mock();
+    const { store, setState } = setup<Real>("init", {
+      writeStrategy: WriteStrategy.debounce(5, timers),
+      onError,
+      select: store => ({ owner: owner, state: store.test }),
+    });
+
+    owner = "A";
+    store.dispatch(setState(1n));
+    owner = "B";
+    store.dispatch(setState("belongs to B"));
+    advance(5);
+    expect(onError).toHaveBeenCalledWith(expect.any(TypeError));
+    expect(Object.keys(dumpStorage())).toEqual(["aRzf3d7co0u-DISK:test:B"]);
+  });
+
+  it("reports deferred write that failed and writes it again on next update", () => {
+    const { timers, advance } = createFakeTimers();
+    const onError = mock();
+    let isFull = true;
+    const { store, setState } = setup("init", {
+      storage: withFaults(mockStorage, { quota: () => isFull }),
+      writeStrategy: WriteStrategy.debounce(5, timers),
+      onError,
+    });
+
+    store.dispatch(setState("new state"));
+    advance(5);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(dumpStorage()).toMatchInlineSnapshot(`{}`);
+
+    isFull = false;
+    store.dispatch({ type: "unrelated" });
+    advance(5);
+    expect(Object.keys(dumpStorage())).toEqual([
+      "aRzf3d7co0u-DISK:test:static",
+    ]);
+  });
+
+  it("evicts least recently used owners when storage is full", () => {
+    let owner: OwnerKey;
+    const onError = mock();
+    const { store, setState, effects } = setup("init", {
+      storage: createLimitedStorage(2),
+      quotaPolicy: "evict",
+      onError,
+      select: store => ({ owner: owner, state: store.test }),
+    });
+
+    setSystemTime(1000);
+    owner = "A";
+    store.dispatch(setState("belongs to A"));
+    setSystemTime(2000);
+    owner = "B";
+    store.dispatch(setState("belongs to B"));
+    setSystemTime(3000);
+    owner = "A";
+    effects.hydrate(store);
+
+    setSystemTime(4000);
+    owner = "C";
+    store.dispatch(setState("belongs to C"));
+    expect(onError).not.toHaveBeenCalled();
+    expect(effects.listOwners()).toEqual(["A", "C"]);
+  });
+
+  it("reports write that did not fit into storage instead of throwing", () => {
+    let owner: OwnerKey;
+    const onError = mock();
+    const { store, setState, effects } = setup("init", {
+      storage: createLimitedStorage(1),
+      onError,
+      select: store => ({ owner: owner, state: store.test }),
+    });
+
+    owner = "A";
+    store.dispatch(setState("belongs to A"));
+    owner = "B";
+    store.dispatch(setState("belongs to B"));
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0]).toHaveProperty(
+      "name",
+      "QuotaExceededError"
+    );
+    expect(effects.listOwners()).toEqual(["A"]);
+  });
+
+  it("keeps at most `maxOwners` most recently used owners", () => {
+    let owner: OwnerKey;
+    const { store, setState, effects } = setup("init", {
+      maxOwners: 2,
+      select: store => ({ owner: owner, state: store.test }),
+    });
+
+    for (const [time, name] of [
+      [1000, "A"],
+      [2000, "B"],
+      [3000, "C"],
+    ] as const) {
+      setSystemTime(time);
+      owner = name;
+      store.dispatch(setState(`belongs to ${name}`));
+    }
+    expect(effects.listOwners()).toEqual(["B", "C"]);
+  });
+
+  it("persists nothing outside the browser unless memory is opted in", () => {
+    expect(typeof localStorage).toBe("undefined");
+    {
+      const { store, setState } = setup("init", { storage: local });
+      store.dispatch(setState("not persisted"));
+    }
+    {
+      const { store, effects } = setup("init", { storage: local });
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual("init");
+    }
+    expect(fallbackStorage(local, memory).status()).toMatchObject({
+      backend: memory,
+    });
+  });
+
+  it("falls back from storage that is blocked when library is imported", async () => {
+    const blocked = new DOMException("Access is denied", "SecurityError");
+    Object.defineProperty(globalThis, "localStorage", {
+      configurable: true,
+      get() {
+        throw blocked;
+      },
+    });
+    // query makes it a separate instance, evaluated while storage is blocked
+    const specifier = "../src/WebStorage?blocked";
+    const { local: blockedLocal }: typeof import("../src/WebStorage") =
+      await import(specifier);
+    delete (globalThis as { localStorage?: unknown }).localStorage;
+
+    expect(() => blockedLocal.setItem("key", "value")).toThrow(blocked);
+    expect(fallbackStorage(blockedLocal, memory).status()).toMatchObject({
+      backend: memory,
+      error: blocked,
+    });
+  });
+
+  it("falls back to the next storage when one fails", () => {
+    const broken: WebStorage = {
+      getItem: () => null,
+      setItem: () => {
+        throw new DOMException("Access is denied", "SecurityError");
+      },
+      removeItem: () => {},
+    };
+    const storage = fallbackStorage(broken, mockStorage, memory);
+    expect(storage.status()).toMatchObject({ index: 1 });
+
+    const onStatus = mock();
+    storage.subscribe(onStatus);
+    const { store, setState } = setup("init", { storage });
+    store.dispatch(setState("kept in storage"));
+    expect(dumpStorage()).toHaveProperty(["aRzf3d7co0u-DISK:test:static"]);
+
+    const storageIsGone = spyOn(mockStorage, "setItem").mockImplementation(
+      () => {
+        throw new Error("storage is gone");
+      }
+    );
+    store.dispatch(setState("kept in memory"));
+    expect(onStatus).toHaveBeenCalledWith(
+      expect.objectContaining({ index: 2, backend: memory })
+    );
+    const { store: reloaded, effects } = setup("init", { storage });
+    effects.hydrate(reloaded);
+    expect(reloaded.getState().test).toEqual("kept in memory");
+    storageIsGone.mockRestore();
+  });
+
+  it("hydrates server rendered store from cookies of the request", () => {
+    const setCookies: string[] = [];
+    const browser = createCookieStorage({
+      cookieHeader: "session=abc",
+      setCookie: header => setCookies.push(header),
+      chunkSize: 100,
+      maxChunks: 10,
+    });
+    const longTheme = "dark;".repeat(40);
+    {
+      const { store, setState } = setup("light", { storage: browser });
+      store.dispatch(setState(longTheme));
+    }
+    expect(setCookies[0]).toEndWith("; Path=/; Max-Age=34560000; SameSite=Lax");
+
+    const cookie = ["session=abc", ...setCookies.map(it => it.split(";")[0])];
+    const request = new Request("https://example.com", {
+      headers: { cookie: cookie.join("; ") },
+    });
+    const setTheme = createAction<string>("setTheme");
+    const store = configureStore({
+      reducer: createReducer("light", ({ addCase }) => {
+        addCase(setTheme, (_, { payload }) => payload);
+      }),
+    });
+    hydrateFromRequest(store, request, storage => [
+      createPersistenceEffects<string, string>("test", storage, {
+        hydrate: setTheme,
+        select: theme => ({ owner: "static", state: theme }),
+        actualize: { version: 0, migrate: state => state as string },
+      }),
+    ]);
+    expect(store.getState()).toEqual(longTheme);
+  });
+
+  it("splits records into several cookies and cleans them up", () => {
+    const storage = createCookieStorage({
+      cookieHeader: "",
+      chunkSize: 40,
+      maxChunks: 3,
+    });
+    storage.setItem("key:a", "x".repeat(50));
+    expect(Array.from(storage.keys!())).toEqual(["key:a"]);
+    expect(storage.getItem("key:a")).toEqual("x".repeat(50));
+
+    storage.setItem("key:a", "short");
+    expect(storage.getItem("key:a")).toEqual("short");
+    storage.removeItem("key:a");
+    expect(Array.from(storage.keys!())).toEqual([]);
+
+    expect(() => storage.setItem("key:a", "x".repeat(200))).toThrowError(
+      expect.objectContaining({ name: "QuotaExceededError" })
+    );
+  });
+
+  it("keeps a key within about 4 KB of cookies by default", () => {
+    const storage = createCookieStorage({ cookieHeader: "" });
+    storage.setItem("key:a", "x".repeat(3900));
+    expect(storage.getItem("key:a")).toEqual("x".repeat(3900));
+    expect(() => storage.setItem("key:a", "x".repeat(4100))).toThrowError(
+      expect.objectContaining({ name: "QuotaExceededError" })
+    );
+  });
+
+  it("upgrades records written in legacy format on first read", () => {
+    mockStorage.setItem("aRzf3d7co0u-DISK:test:static", `0|"legacy state"`);
+    const { store, effects } = setup("init", { appBuild: "abc123" });
+    effects.hydrate(store);
+    expect(store.getState().test).toEqual("legacy state");
+    expect(dumpStorage()).toMatchInlineSnapshot(`
+      {
+        "aRzf3d7co0u-DISK:test:static": "{"format":1,"version":0,"savedAt":1735689600000,"appBuild":"abc123","payload":"\\"legacy state\\""}",
+      }
+    `);
+  });
+
+  it("detects corrupted records when checksum is enabled", () => {
+    const { store, setState, effects } = setup("init", { checksum: true });
+    store.dispatch(setState("original"));
+
+    const key = "aRzf3d7co0u-DISK:test:static";
+    const damaged = mockStorage.getItem(key)!.replace("original", "origami");
+    mockStorage.setItem(key, damaged);
+    expect(() => effects.hydrate(store)).toThrowError(CorruptedRecordError);
+  });
+
+  it("treats expired records as absent and removes them", () => {
+    let time = 0;
+    const config = { ttl: 1000, now: () => time };
+    {
+      const { store, setState } = setup("init", config);
+      store.dispatch(setState("short lived"));
+    }
+    {
+      time = 999;
+      const { store, effects } = setup("init", config);
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual("short lived");
+    }
+    {
+      time = 1000;
+      const { store, effects } = setup("init", config);
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual("init");
+      expect(dumpStorage()).toEqual({});
+    }
+  });
+
+  it("sweeps expired records of all owners", () => {
+    let owner: OwnerKey;
+    let time = 0;
+    const { store, setState, effects } = setup("init", {
+      ttl: state => (state.startsWith("draft") ? 100 : 10_000),
+      now: () => time,
+      select: store => ({ owner: owner, state: store.test }),
+    });
+
+    owner = "A";
+    store.dispatch(setState("draft of A"));
+    owner = "B";
+    store.dispatch(setState("settings of B"));
+
+    time = 500;
+    store.dispatch(effects.sweepExpired.asThunk);
+    expect(effects.listOwners()).toEqual(["B"]);
+  });
+
+  it("inspects records of every owner without changing them", () => {
+    let owner: OwnerKey;
+    const select: SyncSelector<any, any> = store => ({
+      owner,
+      state: store.test,
+    });
+    {
+      const { store, setState } = setup<any>({}, { select });
+      owner = "outdated";
+      store.dispatch(setState({ token: "old" }));
+      owner = "invalid";
+      store.dispatch(setState({ token: 0 }));
+    }
+    mockStorage.setItem("aRzf3d7co0u-DISK:test:broken", `{"format":1,`);
+
+    const { store, setState, effects } = setup<any>(
+      {},
+      {
+        select,
+        version: 1,
+        migrate: (state: any) => {
+          if (typeof state.token !== "string") {
+            throw new Error("token must be a string");
+          }
+          return state;
+        },
+      }
+    );
+    owner = "current";
+    store.dispatch(setState({ token: "secret", tags: ["a"] }));
+
+    const before = dumpStorage();
+    const records = effects.inspect();
+    expect(dumpStorage()).toEqual(before);
+    expect(JSON.stringify(records)).not.toContain("secret");
+    expect(records).toMatchInlineSnapshot(`
+      [
+        {
+          "appBuild": undefined,
+          "bytes": 80,
+          "owner": "outdated",
+          "savedAt": 1735689600000,
+          "shape": {
+            "token": "string",
+          },
+          "status": "outdated",
+          "storageKey": "aRzf3d7co0u-DISK:test:outdated",
+          "version": 0,
+        },
+        {
+          "appBuild": undefined,
+          "bytes": 74,
+          "error": "token must be a string",
+          "owner": "invalid",
+          "savedAt": 1735689600000,
+          "shape": {
+            "token": "number",
+          },
+          "status": "invalid",
+          "storageKey": "aRzf3d7co0u-DISK:test:invalid",
+          "version": 0,
+        },
+        {
+          "bytes": 12,
+          "error": "Persisted test is not a valid record",
+          "owner": "broken",
+          "status": "corrupted",
+          "storageKey": "aRzf3d7co0u-DISK:test:broken",
+        },
+        {
+          "appBuild": undefined,
+          "bytes": 100,
+          "owner": "current",
+          "savedAt": 1735689600000,
+          "shape": {
+            "tags": "Array<string>",
+            "token": "string",
+          },
+          "status": "current",
+          "storageKey": "aRzf3d7co0u-DISK:test:current",
+          "version": 1,
+        },
+      ]
+    `);
+  });
+
+  it("traces reads, writes and clears with redacted payloads", () => {
+    const trace = mock();
+    const { store, setState, effects } = setup<any>({}, { trace });
+    store.dispatch(setState({ password: "hunter2" }));
+    effects.hydrate(store);
+    store.dispatch(effects.purge.asThunk);
+
+    expect(trace.mock.calls.map(([action]) => action)).toEqual([
+      storageTraceActions.recordWritten({
+        key: "test",
+        owner: "static",
+        storageKey: "aRzf3d7co0u-DISK:test:static",
+        bytes: 87,
+        version: 0,
+        shape: { password: "string" },
+      }),
+      storageTraceActions.recordRead({
+        key: "test",
+        owner: "static",
+        storageKey: "aRzf3d7co0u-DISK:test:static",
+        bytes: 87,
+        version: 0,
+        shape: { password: "string" },
+      }),
+      storageTraceActions.recordCleared({
+        key: "test",
+        owner: "static",
+        storageKey: "aRzf3d7co0u-DISK:test:static",
+      }),
+    ]);
+  });
+
+  it("reads records written with retired codecs", () => {
+    const reverse: Codec = {
+      id: "reverse",
+      encode: data => [...data].reverse().join(""),
+      decode: data => [...data].reverse().join(""),
+    };
+    {
+      const { store, setState } = setup("init", { codecs: [reverse] });
+      store.dispatch(setState("written reversed"));
+      expect(dumpStorage()["aRzf3d7co0u-DISK:test:static"]).toContain(
+        `"payload":"\\"desrever nettirw\\""`
+      );
+    }
+    {
+      const { store, effects } = setup("init", { codecs: [Codec.base64] });
+      expect(() => effects.hydrate(store)).toThrowError(CorruptedRecordError);
+    }
+    {
+      const { store, effects } = setup("init", {
+        codecs: [Codec.base64],
+        retiredCodecs: [reverse],
+      });
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual("written reversed");
+    }
+  });
+
+  it("compresses records synchronously with lzw codec", () => {
+    const state = Array.from({ length: 100 }, (_, id) => ({ id, done: false }));
+    {
+      const { store, setState } = setup<typeof state>([], {
+        codecs: [Codec.lzw],
+      });
+      store.dispatch(setState(state));
+      const stored = dumpStorage()["aRzf3d7co0u-DISK:test:static"];
+      expect(stored).toContain(`"codec":"lzw"`);
+      expect(stored.length).toBeLessThan(JSON.stringify(state).length / 2);
+    }
+    {
+      const { store, effects } = setup<typeof state>([], {
+        codecs: [Codec.lzw],
+      });
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual(state);
+    }
+  });
+
+  it("refuses asynchronous codecs", () => {
+    const onError = mock();
+    const { store, effects } = setup("init", {
+      codecs: [Codec.deflate as Codec],
+      onError,
+    });
+    effects.update(store);
+    expect(onError).toHaveBeenCalledWith(expect.any(TypeError));
+    expect(dumpStorage()).toEqual({});
+  });
+
+  it("throws on a record that cannot be read by default", () => {
+    mockStorage.setItem(
+      "aRzf3d7co0u-DISK:test:static",
+      `{"format":1,"version":0,`
+    );
+    const { store, effects } = setup("init");
+    expect(() => effects.hydrate(store)).toThrowError(CorruptedRecordError);
+  });
+
+  it("treats records truncated by storage as corrupted", () => {
+    const faults: Faults = {};
+    const storage = withFaults(mockStorage, faults);
+    {
+      const { store, setState } = setup("init", { storage });
+      store.dispatch(setState("written whole"));
+    }
+
+    faults.corrupt = "truncate";
+    const onError = mock();
+    const { store, effects } = setup("init", {
+      storage,
+      errorPolicy: "keep-and-skip",
+      onError,
+    });
+    effects.hydrate(store);
+    expect(store.getState().test).toEqual("init");
+    expect(onError.mock.calls[0][0]).toBeInstanceOf(CorruptedRecordError);
+  });
+
+  it("applies error policy to records that cannot be read", () => {
+    const key = "aRzf3d7co0u-DISK:test:static";
+    const broken = `{"format":1,"version":0,"savedAt":0,"payload":"{not json"}`;
+    const hydrateBroken = (
+      errorPolicy: Config<string, never>["errorPolicy"]
+    ) => {
+      mockStorage.clear();
+      mockStorage.setItem(key, broken);
+      const onError = mock();
+      const { store, effects } = setup("init", { errorPolicy, onError });
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual("init");
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(CorruptedRecordError);
+      return dumpStorage();
+    };
+
+    expect(hydrateBroken("reset")).toEqual({});
+    expect(hydrateBroken("keep-and-skip")).toEqual({ [key]: broken });
+    expect(hydrateBroken("quarantine")).toEqual({
+      "aRzf3d7co0u-DISK:test!quarantine:static": broken,
+    });
+  });
+
+  it("applies error policy to records that fail migration", () => {
+    const { store, setState } = setup("init");
+    store.dispatch(setState("version 0"));
+
+    const onError = mock();
+    const { store: storeV1, effects } = setup("init", {
+      version: 1,
+      migrate: () => {
+        throw new Error("invalid data");
+      },
+      errorPolicy: "reset",
+      onError,
+    });
+    effects.hydrate(storeV1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(storeV1.getState().test).toEqual("init");
+    expect(dumpStorage()).toEqual({});
+  });
+
+  it("dispatches hydration lifecycle actions", () => {
+    const hydrationActionsOf = (store: { dispatch: (action: any) => any }) => {
+      const dispatch = spyOn(store, "dispatch");
+      return () =>
+        dispatch.mock.calls
+          .map(([action]) => action)
+          .filter(action => action.type.startsWith("persistence/"));
+    };
+
+    {
+      const { store, effects, setState } = setup("init");
+      const dispatched = hydrationActionsOf(store);
+      effects.hydrate(store);
+      expect(dispatched()).toEqual([
+        effects.hydrationStarted({ owner: "static" }),
+        effects.hydrationSkipped({ owner: "static", reason: "not-found" }),
+      ]);
+      // lifecycle actions do not write initial state
+      expect(dumpStorage()).toEqual({});
+      store.dispatch(setState("v0"));
+    }
+    {
+      const { store, effects } = setup("v1", {
+        version: 1,
+        migrate: state => `${state} migrated`,
+      });
+      const dispatched = hydrationActionsOf(store);
+      effects.hydrate(store);
+      expect(store.getState().test).toEqual("v0 migrated");
+      expect(dispatched()).toEqual([
+        effects.hydrationStarted({ owner: "static" }),
+        effects.hydrated({ owner: "static", fromVersion: 0, migrated: true }),
+      ]);
+    }
+    {
+      const { store, effects } = setup("v2", {
+        version: 2,
+        migrate: () => {
+          throw new Error("invalid data");
+        },
+        errorPolicy: "keep-and-skip",
+        onError: () => {},
+      });
+      const dispatched = hydrationActionsOf(store);
+      effects.hydrate(store);
+      expect(dispatched()).toEqual([
+        effects.hydrationStarted({ owner: "static" }),
+        effects.hydrationFailed({
+          owner: "static",
+          error: expect.objectContaining({ message: "invalid data" }),
+        }),
+      ]);
+    }
+    {
+      const { store, effects } = setup("init", {
+        select: () => ({ skipSync: true }),
+      });
+      const dispatched = hydrationActionsOf(store);
+      effects.hydrate(store);
+      expect(dispatched()).toEqual([
+        effects.hydrationStarted({}),
+        effects.hydrationSkipped({ reason: "no-owner" }),
+      ]);
+    }
+  });
+
+  it("tracks hydration status per key", () => {
+    const { hydrationStarted, hydrated, hydrationFailed } = hydrationActions;
+    const state = [
+      hydrationStarted({ key: "a" }),
+      hydrationStarted({ key: "b" }),
+      hydrated({ key: "a", owner: "x", fromVersion: 0, migrated: false }),
+    ].reduce(hydrationStatusReducer, {});
+    const root = { hydrationStatus: state };
+
+    expect(selectHydrationStatus(root, "a")).toEqual("hydrated");
+    expect(selectHydrationStatus(root, "b")).toEqual("pending");
+    expect(selectHydrationStatus(root, "c")).toEqual("idle");
+
+    const failed = hydrationStatusReducer(
+      state,
+      hydrationFailed({ key: "b", error: { message: "oops" } })
+    );
+    expect(selectHydrationStatus({ hydrationStatus: failed }, "b")).toEqual(
+      "failed"
+    );
+  });
+
+  it("runs many effect sets from a single middleware", async () => {
+    const login = createAction<string>("login");
+    const setTheme = createAction<string>("setTheme");
+    const setDraft = createAction<string>("setDraft");
+    type Root = {
+      user: string | null;
+      theme: string;
+      draft: string;
+      hydrationStatus: ReturnType<typeof hydrationStatusReducer>;
+    };
+    const createStore = () => {
+      const persisted = (key: string, hydrate: typeof setTheme) =>
+        createPersistenceEffects<string, Root>(key, mockStorage, {
+          hydrate,
+          select: root =>
+            root.user
+              ? { owner: root.user, state: root[key as "theme" | "draft"] }
+              : { skipSync: true },
+          actualize: _ => _.currentVersion(state => state as string),
+        });
+      const persistence = createPersistenceMiddleware(
+        [persisted("theme", setTheme), persisted("draft", setDraft)],
+        { hydrateOn: login }
+      );
+      const store = configureStore({
+        reducer: {
+          user: createReducer<string | null>(null, ({ addCase }) => {
+            addCase(login, (_, { payload }) => payload);
+          }),
+          theme: createReducer("light", ({ addCase }) => {
+            addCase(setTheme, (_, { payload }) => payload);
+          }),
+          draft: createReducer("empty", ({ addCase }) => {
+            addCase(setDraft, (_, { payload }) => payload);
+          }),
+          hydrationStatus: hydrationStatusReducer,
+        },
+        middleware: getDM => getDM().concat(persistence.middleware),
+      });
+      return { store, persistence };
+    };
+    {
+      const { store, persistence } = createStore();
+      expect(persistence.selectHydrationStatus(store.getState())).toEqual(
+        "idle"
+      );
+      store.dispatch(login("alice"));
+      expect(persistence.selectHydrationStatus(store.getState())).toEqual(
+        "skipped"
+      );
+      store.dispatch(setTheme("dark"));
+      store.dispatch(setDraft("hello"));
+    }
+    const { store, persistence } = createStore();
+    store.dispatch(login("alice"));
+    expect(store.getState()).toMatchObject({ theme: "dark", draft: "hello" });
+    expect(persistence.selectHydrationStatus(store.getState())).toEqual(
+      "hydrated"
+    );
+
+    await store.dispatch(persistence.purgeAll.asThunk);
+    expect(dumpStorage()).toEqual({});
+  });
+
+  it("persists a key whose hydration failed", async () => {
+    const appReady = createAction("appReady");
+    const setNote = createAction<string>("setNote");
+    const notes = createPersistenceEffects<string, { note: string }>(
+      "notes",
+      mockStorage,
+      {
+        hydrate: setNote,
+        select: root => ({ owner: "static", state: root.note }),
+        actualize: _ => _.currentVersion(state => state as string),
+      }
+    );
+    const onError = mock();
+    const persistence = createPersistenceMiddleware([notes], {
+      hydrateOn: appReady,
+      onError,
+    });
+    const store = configureStore({
+      reducer: {
+        note: createReducer("initial", ({ addCase }) => {
+          addCase(setNote, (_, { payload }) => payload);
+        }),
+      },
+      middleware: getDM => getDM().concat(persistence.middleware),
+    });
+    const key = "aRzf3d7co0u-DISK:notes:static";
+    mockStorage.setItem(key, `{"format":1,"version":1,`);
+
+    store.dispatch(appReady());
+    store.dispatch(setNote("written after failure"));
+    expect(JSON.parse(mockStorage.getItem(key)!)).toHaveProperty(
+      "payload",
+      '"written after failure"'
+    );
+    // errors are reported once every effect settles
+    await Bun.sleep(0);
+    expect(onError).toHaveBeenCalledWith(expect.any(CorruptedRecordError));
+  });
+
+  it("holds updates of a key until it is hydrated", () => {
+    const appReady = createAction("appReady");
+    const setNote = createAction<string>("setNote");
+    const createStore = () => {
+      const notes = createPersistenceEffects<string, { note: string }>(
+        "notes",
+        mockStorage,
+        {
+          hydrate: setNote,
+          select: root => ({ owner: "static", state: root.note }),
+          actualize: _ => _.currentVersion(state => state as string),
+        }
+      );
+      const persistence = createPersistenceMiddleware([notes], {
+        hydrateOn: appReady,
+      });
+      return configureStore({
+        reducer: {
+          note: createReducer("initial", ({ addCase }) => {
+            addCase(setNote, (_, { payload }) => payload);
+          }),
+        },
+        middleware: getDM => getDM().concat(persistence.middleware),
+      });
+    };
+    {
+      const store = createStore();
+      store.dispatch(appReady());
+      store.dispatch(setNote("persisted"));
+    }
+    const store = createStore();
+    store.dispatch({ type: "unrelated" });
+    store.dispatch(appReady());
+    expect(store.getState().note).toEqual("persisted");
+  });
+
+  it("exports and imports records of every key and owner", async () => {
+    const login = createAction<string>("login");
+    const setNote = createAction<string>("setNote");
+    type Root = { user: string; note: string };
+    const notes = createPersistenceEffects<string, Root>("notes", mockStorage, {
+      hydrate: setNote,
+      select: root => ({ owner: root.user, state: root.note }),
+      actualize: _ =>
+        _.currentVersion(state => {
+          if (typeof state !== "string") {
+            throw new TypeError("Note is not a string");
+          }
+          return state;
+        }),
+    });
+    const persistence = createPersistenceMiddleware([notes]);
+    const store = configureStore({
+      reducer: {
+        user: createReducer("alice", ({ addCase }) => {
+          addCase(login, (_, { payload }) => payload);
+        }),
+        note: createReducer("", ({ addCase }) => {
+          addCase(setNote, (_, { payload }) => payload);
+        }),
+      },
+      middleware: getDM => getDM().concat(persistence.middleware),
+    });
+    await store.dispatch(persistence.hydrateAll.asThunk);
+    store.dispatch(setNote("groceries"));
+    store.dispatch(login("bob"));
+    store.dispatch(setNote("chores"));
+
+    const backup = await persistence.exportAll();
+    expect(
+      backup.records.map(({ owner, payload }) => [owner, payload])
+    ).toEqual([
+      ["alice", '"groceries"'],
+      ["bob", '"chores"'],
+    ]);
+
+    const saved = dumpStorage();
+    await store.dispatch(persistence.purgeAll.asThunk);
+    const restored = await persistence.importAll(
+      JSON.parse(JSON.stringify(backup)),
+      { mode: "overwrite" }
+    );
+    expect(restored.imported).toHaveLength(2);
+    expect(dumpStorage()).toEqual(saved);
+
+    const foreign = {
+      ...backup,
+      records: [
+        { key: "notes", owner: "bob", version: 1, payload: '"shopping"' },
+        { key: "notes", owner: "carol", version: 1, payload: '"errands"' },
+        { key: "notes", owner: "dave", version: 1, payload: "42" },
+        { key: "notes", owner: "erin", version: 3, payload: '"future"' },
+        { key: "todos", owner: "alice", version: 0, payload: "[]" },
+      ],
+    };
+    expect(await persistence.importAll(foreign, { mode: "merge" })).toEqual({
+      imported: [{ key: "notes", owner: "carol" }],
+      skipped: [{ key: "notes", owner: "bob" }],
+      rejected: [
+        {
+          key: "notes",
+          owner: "dave",
+          reason: "invalid",
+          message: 'Migration from 1 to 1 failed. Persisted "number"',
+        },
+        { key: "notes", owner: "erin", reason: "newer-version" },
+        { key: "todos", owner: "alice", reason: "unknown-key" },
+      ],
+    });
+    await expect(
+      persistence.importAll({ records: [] }, { mode: "merge" })
+    ).rejects.toThrow("Not a backup document");
+    const beforeMalformed = dumpStorage();
+    for (const malformed of [
+      { key: "notes", version: 1, payload: '"no owner"' },
+      { key: "notes", owner: "frank", payload: '"no version"' },
+      { key: "notes", owner: "frank", version: 1.5, payload: '"fraction"' },
+      { key: 1, owner: "frank", version: 1, payload: '"numeric key"' },
+    ]) {
+      await expect(
+        persistence.importAll(
+          { ...backup, records: [malformed] },
+          { mode: "merge" }
+        )
+      ).rejects.toThrow("Record #0 of backup document is malformed");
+    }
+    expect(dumpStorage()).toEqual(beforeMalformed);
+  });
 });
 
 function setup<T extends Real>(
   initialState: T,
   {
     select: select = ({ test }) => ({ owner: "static", state: test }),
+    storage = mockStorage as WebStorage,
     ...config
     //
   } = {} as Partial<
-    Pick<Config<T, { test: T }>, "select" | "migrate" | "version" | "json">
+    Pick<
+      Config<T, { test: T }>,
+      | "select"
+      | "rehydrateOnOwnerChange"
+      | "compare"
+      | "migrate"
+      | "downgrade"
+      | "namespace"
+      | "legacySources"
+      | "version"
+      | "json"
+      | "storage"
+      | "writeStrategy"
+      | "quotaPolicy"
+      | "maxOwners"
+      | "onError"
+      | "appBuild"
+      | "checksum"
+      | "ttl"
+      | "now"
+      | "codecs"
+      | "retiredCodecs"
+      | "errorPolicy"
+      | "trace"
+      | "partition"
+      | "resolveConflict"
+    >
   >
 ) {
   const setState = createAction("setState", (state: T) => ({ payload: state }));
@@ -248,11 +1660,12 @@ function setup<T extends Real>(
     addCase(setState, (_, action) => action.payload);
   });
 
-  const effects = createPersistenceEffects("test", mockStorage, {
+  const effects = createPersistenceEffects("test", storage, {
     ...config,
     actualize: {
       migrate: config.migrate ?? (state => state as T),
       version: config.version ?? 0,
+      downgrade: config.downgrade,
     },
     select,
     hydrate: setState,
@@ -273,6 +1686,78 @@ function setup<T extends Real>(
   return { store, effects, setState };
 }
 
+/**
+ * Timers that only fire when the test advances them
+ */
+function createFakeTimers({ idle = false } = {}) {
+  let time = 0;
+  let lastHandle = 0;
+  const timeouts = new Map<unknown, { at: number; callback: () => void }>();
+  const idleCallbacks = new Map<unknown, () => void>();
+  const timers: Timers = {
+    setTimeout: (callback, ms) => {
+      timeouts.set(++lastHandle, { at: time + ms, callback });
+      return lastHandle;
+    },
+    clearTimeout: handle => void timeouts.delete(handle),
+    now: () => time,
+    ...(idle && {
+      requestIdleCallback: callback => {
+        idleCallbacks.set(++lastHandle, callback);
+        return lastHandle;
+      },
+      cancelIdleCallback: handle => void idleCallbacks.delete(handle),
+    }),
+  };
+
+  const advance = (ms: number) => {
+    time += ms;
+    for (const [handle, { at, callback }] of timeouts) {
+      if (at > time) continue;
+      timeouts.delete(handle);
+      callback();
+    }
+  };
+  const runIdle = () => {
+    const callbacks = [...idleCallbacks.values()];
+    idleCallbacks.clear();
+    callbacks.forEach(callback => callback());
+  };
+
+  return { timers, advance, runIdle };
+}
+
+/**
+ * Fails with quota error when writing more than `maxRecords` owners of the "test" key
+ */
+function createLimitedStorage(maxRecords: number) {
+  const prefix = "aRzf3d7co0u-DISK:test:";
+  return withFaults(mockStorage, {
+    quota: key => {
+      const records = Object.keys(dumpStorage()).filter(k =>
+        k.startsWith(prefix)
+      );
+      return (
+        key.startsWith(prefix) &&
+        !records.includes(key) &&
+        records.length >= maxRecords
+      );
+    },
+  });
+}
+
+/**
+ * Copies getters of the builder result, so that it can be spread into `setup` config
+ */
+function versioning<T extends Real>(builder: VersioningConfigBuilder<T>) {
+  const { version, migrate, downgrade } = buildMigration(builder);
+  return { version, migrate, downgrade };
+}
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
 function randomString() {
   return Math.random().toString(36).substring(2);
 }
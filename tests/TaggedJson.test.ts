@@ -0,0 +1,104 @@
+import { describe, expect, it } from "bun:test";
+import { TypeHandler, createTaggedJson, taggedJson } from "../src/TaggedJson";
+
+describe("taggedJson", () => {
+  it("round-trips nested dates, maps, sets and bigints", () => {
+    const state = {
+      createdAt: new Date("2025-01-01T00:00:00Z"),
+      balance: 10n ** 20n,
+      tags: new Set(["a", "b"]),
+      byId: new Map<unknown, unknown>([
+        [1, { seenAt: [new Date(0)], flags: new Set([1n]) }],
+        [new Date(1), new Map([["nested", null]])],
+      ]),
+      list: [new Set(), { plain: true }],
+    };
+
+    const restored = taggedJson.parse(taggedJson.stringify(state));
+
+    expect(restored).toEqual(state);
+    expect(restored.byId.get(1).seenAt[0]).toBeInstanceOf(Date);
+    expect(restored.balance).toBe(100000000000000000000n);
+
+    const invalid = taggedJson.parse(taggedJson.stringify(new Date(NaN)));
+    expect(invalid.getTime()).toBeNaN();
+  });
+
+  it("writes plain JSON and reads records written with JSON", () => {
+    const stored = taggedJson.stringify({ at: new Date(0), count: 1 });
+    expect(JSON.parse(stored)).toEqual({
+      at: { $type: "Date", value: "1970-01-01T00:00:00.000Z" },
+      count: 1,
+    });
+
+    const legacy = { name: "x", items: [1, { nested: "y" }] };
+    expect(taggedJson.parse(JSON.stringify(legacy))).toEqual(legacy);
+  });
+
+  it("keeps objects that look like tagged values", () => {
+    const state = [
+      { $type: "Date", value: "not a date" },
+      { $type: "Object", value: 1 },
+    ];
+    expect(taggedJson.parse(taggedJson.stringify(state))).toEqual(state);
+    expect(taggedJson.parse(`{"$type":"Unknown","value":1}`)).toEqual({
+      $type: "Unknown",
+      value: 1,
+    });
+  });
+
+  it("refuses tagged values of unexpected shape", () => {
+    expect(() => taggedJson.parse(`{"$type":"Set","value":1}`)).toThrowError(
+      TypeError,
+    );
+    expect(() => taggedJson.parse(`{"$type":"Map","value":[1]}`)).toThrowError(
+      TypeError,
+    );
+    expect(() =>
+      taggedJson.parse(`{"$type":"BigInt","value":{}}`),
+    ).toThrowError(TypeError);
+  });
+
+  it("supports custom type handlers", () => {
+    class Money {
+      constructor(
+        readonly amount: bigint,
+        readonly currency: string,
+      ) {}
+    }
+    const money: TypeHandler<Money> = {
+      tag: "Money",
+      test: (value): value is Money => value instanceof Money,
+      encode: ({ amount, currency }) => [amount, currency],
+      decode: (encoded) => {
+        const [amount, currency]: unknown[] = Array.isArray(encoded)
+          ? encoded
+          : [];
+        if (typeof amount !== "bigint" || typeof currency !== "string") {
+          throw new TypeError("Money must be stored as amount and currency");
+        }
+        return new Money(amount, currency);
+      },
+    };
+    const json = createTaggedJson(money);
+
+    const restored = json.parse(
+      json.stringify({ prices: new Map([["x", new Money(5n, "EUR")]]) }),
+    );
+    expect(restored.prices.get("x")).toEqual(new Money(5n, "EUR"));
+    expect(restored.prices.get("x")).toBeInstanceOf(Money);
+
+    expect(() => createTaggedJson({ ...money, tag: "Object" })).toThrowError(
+      TypeError,
+    );
+  });
+
+  it("refuses cyclic structures", () => {
+    const cyclic: Record<string, unknown> = {};
+    cyclic.self = new Map([["parent", cyclic]]);
+    expect(() => taggedJson.stringify(cyclic)).toThrowError(TypeError);
+
+    const shared = { value: 1 };
+    expect(() => taggedJson.stringify([shared, shared])).not.toThrow();
+  });
+});